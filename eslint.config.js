@@ -36,6 +36,7 @@ module.exports = [
         GeolocationPositionError: 'readonly',
         GeolocationPosition: 'readonly',
         MediaQueryListEvent: 'readonly',
+        IDBTransactionMode: 'readonly',
         // Node.js types
         NodeJS: 'readonly',
       },
@@ -67,6 +68,8 @@ module.exports = [
       // General
       'no-console': ['warn', { allow: ['warn', 'error'] }],
       'no-unused-vars': 'off', // Use TypeScript version instead
+      'no-redeclare': 'off', // Use TypeScript version instead (allows function overloads)
+      '@typescript-eslint/no-redeclare': 'error',
     },
   },
   
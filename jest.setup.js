@@ -16,6 +16,25 @@ Object.defineProperty(window, 'matchMedia', {
   })),
 })
 
+// jsdom does not expose structuredClone, which fake-indexeddb relies on
+if (typeof global.structuredClone === 'undefined') {
+  const v8 = require('v8')
+  global.structuredClone = (value) => v8.deserialize(v8.serialize(value))
+}
+
+// jsdom does not expose TextEncoder or Web Crypto's subtle API, which encrypted storage relies on
+if (typeof global.TextEncoder === 'undefined') {
+  const { TextEncoder, TextDecoder } = require('util')
+  global.TextEncoder = TextEncoder
+  global.TextDecoder = TextDecoder
+}
+if (typeof global.crypto === 'undefined' || typeof global.crypto.subtle === 'undefined') {
+  Object.defineProperty(global, 'crypto', {
+    value: require('crypto').webcrypto,
+    configurable: true,
+  })
+}
+
 // Suppress console warnings in tests (optional)
 // global.console.warn = jest.fn()
 
@@ -26,6 +26,61 @@ export type {
 } from './browser'
 
 // Export storage feature
-export { useStorage } from './storage'
+export {
+  useStorage,
+  useStorageKeys,
+  useStorageReducer,
+  useStorageHistory,
+  usePersistedForm,
+  StorageProvider,
+  createWebStorageAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createCookieAdapter,
+  cookieAdapter,
+  indexedDBAdapter,
+  createMemoryAdapter,
+  memoryAdapter,
+  createEncryptedAdapter,
+  sweepExpiredStorage,
+  richSerializer,
+  parseCookies,
+  serializeCookie,
+  validateCookieOptions,
+  batchStorageWrites,
+} from './storage'
 
-export type { StorageType, StorageValue, IUseStorageOptions, IUseStorageReturn } from './storage'
+export type {
+  StorageType,
+  StorageValue,
+  RichStorageValue,
+  IUseStorageOptions,
+  IUseRichStorageOptions,
+  IUseStorageReturn,
+  IUseStorageKeysOptions,
+  IUseStorageKeysReturn,
+  StorageReducer,
+  IUseStorageReducerOptions,
+  IUseStorageReducerReturn,
+  IUseStorageHistoryOptions,
+  IUseStorageHistoryReturn,
+  PersistedFormValues,
+  IUsePersistedFormOptions,
+  IUsePersistedFormReturn,
+  IStorageSetOptions,
+  StorageSetStateAction,
+  IStorageSerializer,
+  IStorageEncryptionOptions,
+  IStorageCookieOptions,
+  StorageErrorType,
+  StorageOperation,
+  StorageStatus,
+  IStorageLogger,
+  IStorageError,
+  IStorageEvictionOptions,
+  StorageAdapter,
+  IStorageContextValue,
+  IStorageProviderProps,
+  IRequestCookieStore,
+  StorageRequestCookies,
+} from './storage'
@@ -0,0 +1,336 @@
+import React from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { hydrateRoot } from 'react-dom/client'
+import { StorageProvider } from '../../context'
+import { useStorage } from '../../hooks/useStorage'
+import type { IStorageContextValue, StorageAdapter } from '../../interface'
+
+describe('StorageProvider', () => {
+  const TEST_KEY = 'test-key'
+
+  const createWrapper = (props: IStorageContextValue) =>
+    function Wrapper({ children }: { children: React.ReactNode }) {
+      return <StorageProvider {...props}>{children}</StorageProvider>
+    }
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+    document.cookie.split(';').forEach((cookie) => {
+      const name = cookie.split('=')[0].trim()
+      document.cookie = `${name}=;expires=Thu, 01 Jan 1970 00:00:00 GMT;path=/`
+    })
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('Namespace', () => {
+    it('should prefix keys with the provided namespace', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ namespace: 'app' }),
+      })
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(localStorage.getItem(`app:${TEST_KEY}`)).toBe('"value"')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should read values from the namespaced key', () => {
+      localStorage.setItem(`app:${TEST_KEY}`, '"stored"')
+      localStorage.setItem(TEST_KEY, '"other"')
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ namespace: 'app' }),
+      })
+
+      expect(result.current.value).toBe('stored')
+    })
+
+    it('should keep values of different namespaces apart', () => {
+      const first = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ namespace: 'first' }),
+      })
+      const second = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ namespace: 'second' }),
+      })
+
+      act(() => {
+        first.result.current.setValue('first-value')
+      })
+
+      expect(first.result.current.value).toBe('first-value')
+      expect(second.result.current.value).toBeNull()
+    })
+
+    it('should let the hook namespace override the provided one', () => {
+      const { result } = renderHook(
+        () => ({
+          custom: useStorage<string>(TEST_KEY, { namespace: 'custom' }),
+          unprefixed: useStorage<string>('plain', { namespace: '' }),
+        }),
+        { wrapper: createWrapper({ namespace: 'app' }) }
+      )
+
+      act(() => {
+        result.current.custom.setValue('a')
+        result.current.unprefixed.setValue('b')
+      })
+
+      expect(localStorage.getItem(`custom:${TEST_KEY}`)).toBe('"a"')
+      expect(localStorage.getItem('plain')).toBe('"b"')
+    })
+  })
+
+  describe('Defaults', () => {
+    it('should use the provided storage type', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ storageType: 'sessionStorage' }),
+      })
+
+      act(() => {
+        result.current.setValue('session')
+      })
+
+      expect(sessionStorage.getItem(TEST_KEY)).toBe('"session"')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should let the hook storage type override the provided one', () => {
+      const { result } = renderHook(
+        () => useStorage<string>(TEST_KEY, { storageType: 'localStorage' }),
+        { wrapper: createWrapper({ storageType: 'sessionStorage' }) }
+      )
+
+      act(() => {
+        result.current.setValue('local')
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('"local"')
+      expect(sessionStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should merge provided and hook cookie options', () => {
+      const cookieSpy = jest.spyOn(document, 'cookie', 'set')
+
+      const { result } = renderHook(
+        () => useStorage<string>(TEST_KEY, { cookieOptions: { sameSite: 'Strict' } }),
+        { wrapper: createWrapper({ storageType: 'cookie', cookieOptions: { path: '/app' } }) }
+      )
+
+      act(() => {
+        result.current.setValue('cookie-value')
+      })
+
+      const written = cookieSpy.mock.calls.map(([cookie]) => cookie).pop()
+      expect(written).toContain(`${TEST_KEY}=`)
+      expect(written).toContain('Path=/app')
+      expect(written).toContain('SameSite=Strict')
+
+      cookieSpy.mockRestore()
+    })
+
+    it('should inherit defaults from parent providers', () => {
+      function Wrapper({ children }: { children: React.ReactNode }) {
+        return (
+          <StorageProvider namespace="app" storageType="sessionStorage">
+            <StorageProvider namespace="nested">{children}</StorageProvider>
+          </StorageProvider>
+        )
+      }
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), { wrapper: Wrapper })
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(sessionStorage.getItem(`nested:${TEST_KEY}`)).toBe('"value"')
+    })
+  })
+
+  describe('Error Handler', () => {
+    it('should report write errors to the provided error handler', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const onError = jest.fn()
+      const adapter: StorageAdapter = {
+        name: 'failing-test',
+        get: () => null,
+        set: () => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        },
+        remove: () => {},
+      }
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ storageType: adapter, namespace: 'app', onError }),
+      })
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'quotaExceeded', key: `app:${TEST_KEY}` })
+      )
+      expect(result.current.error?.type).toBe('quotaExceeded')
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should log errors with the provided logger', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const logger = { warn: jest.fn() }
+      const readError = new Error('Read failed')
+      const adapter: StorageAdapter = {
+        name: 'failing-test',
+        get: () => {
+          throw readError
+        },
+        set: () => {},
+        remove: () => {},
+      }
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY), {
+        wrapper: createWrapper({ storageType: adapter, logger }),
+      })
+
+      expect(result.current.status).toBe('error')
+      expect(logger.warn).toHaveBeenCalledWith(
+        `Error reading failing-test for key "${TEST_KEY}":`,
+        readError
+      )
+      expect(consoleWarnSpy).not.toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should let the hook error handler override the provided one', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const providedOnError = jest.fn()
+      const onError = jest.fn()
+      localStorage.setItem(TEST_KEY, JSON.stringify(42))
+
+      renderHook(
+        () =>
+          useStorage<string>(TEST_KEY, {
+            validate: (value): value is string => typeof value === 'string',
+            onError,
+          }),
+        { wrapper: createWrapper({ onError: providedOnError }) }
+      )
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'parse' }))
+      expect(providedOnError).not.toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+  })
+  describe('Server Cookies', () => {
+    function Theme({ storageKey = 'theme' }: { storageKey?: string }) {
+      const { value } = useStorage<string>(storageKey, {
+        storageType: 'cookie',
+        defaultValue: 'light',
+      })
+      return <span>{value}</span>
+    }
+
+    it('should render cookie values from a cookie header on the server', () => {
+      const html = renderToString(
+        <StorageProvider cookies={`theme=${encodeURIComponent('"dark"')}; other=1`}>
+          <Theme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>dark</span>')
+    })
+
+    it('should accept a cookie store with getAll', () => {
+      const cookieStore = {
+        getAll: () => [{ name: 'theme', value: '"dark"' }],
+      }
+
+      const html = renderToString(
+        <StorageProvider cookies={cookieStore}>
+          <Theme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>dark</span>')
+    })
+
+    it('should join values split across several cookies', () => {
+      const html = renderToString(
+        <StorageProvider cookies={{ theme: '__rhc_chunks:2', 'theme.0': '"da', 'theme.1': 'rk"' }}>
+          <Theme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>dark</span>')
+    })
+
+    it('should read namespaced keys from a cookie map', () => {
+      const html = renderToString(
+        <StorageProvider namespace="app" cookies={{ 'app:theme': '"dark"', theme: '"blue"' }}>
+          <Theme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>dark</span>')
+    })
+
+    it('should render defaultValue when the cookie is missing', () => {
+      const html = renderToString(
+        <StorageProvider cookies="other=1">
+          <Theme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>light</span>')
+    })
+
+    it('should not use request cookies for other storage types', () => {
+      function LocalTheme() {
+        const { value } = useStorage<string>('theme', { defaultValue: 'light' })
+        return <span>{value}</span>
+      }
+
+      const html = renderToString(
+        <StorageProvider cookies={{ theme: '"dark"' }}>
+          <LocalTheme />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>light</span>')
+    })
+
+    it('should hydrate without mismatches', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation()
+      const cookieHeader = `theme=${encodeURIComponent('"dark"')}`
+      const app = (
+        <StorageProvider cookies={cookieHeader}>
+          <Theme />
+        </StorageProvider>
+      )
+
+      const container = document.createElement('div')
+      container.innerHTML = renderToString(app)
+      document.cookie = `${cookieHeader};path=/`
+
+      await act(async () => {
+        hydrateRoot(container, app)
+      })
+
+      expect(container.innerHTML).toBe('<span>dark</span>')
+      expect(consoleErrorSpy).not.toHaveBeenCalled()
+
+      consoleErrorSpy.mockRestore()
+    })
+  })
+})
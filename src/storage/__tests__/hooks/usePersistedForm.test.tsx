@@ -0,0 +1,349 @@
+import React from 'react'
+import { renderHook, render, act, fireEvent, screen } from '@testing-library/react'
+import { usePersistedForm } from '../../hooks/usePersistedForm'
+
+describe('usePersistedForm', () => {
+  const FORM_KEY = 'signup-form'
+  const initialValues = { name: '', email: '', password: '', newsletter: false }
+
+  const readStored = () => JSON.parse(localStorage.getItem(FORM_KEY) ?? 'null')
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    localStorage.clear()
+  })
+
+  describe('Restore', () => {
+    it('should start with the initial values when nothing is stored', () => {
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      expect(result.current.values).toEqual(initialValues)
+      expect(result.current.isRestored).toBe(false)
+    })
+
+    it('should restore stored values on mount', () => {
+      localStorage.setItem(FORM_KEY, JSON.stringify({ name: 'Ada' }))
+
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      expect(result.current.values).toEqual({ ...initialValues, name: 'Ada' })
+      expect(result.current.isRestored).toBe(true)
+    })
+
+    it('should not restore excluded fields', () => {
+      localStorage.setItem(FORM_KEY, JSON.stringify({ name: 'Ada', password: 'hunter2' }))
+
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      expect(result.current.values.password).toBe('')
+      expect(result.current.values.name).toBe('Ada')
+    })
+  })
+
+  describe('Persistence', () => {
+    it('should write one debounced snapshot of the whole form', () => {
+      const setItemSpy = jest.spyOn(Storage.prototype, 'setItem')
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('name', 'A')
+      })
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+        result.current.setFieldValue('email', 'ada@example.com')
+      })
+
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toEqual({ name: 'Ada', email: 'ada@example.com', newsletter: false })
+      expect(setItemSpy.mock.calls.filter(([key]) => key === FORM_KEY)).toHaveLength(1)
+
+      setItemSpy.mockRestore()
+    })
+
+    it('should use the configured debounce delay', () => {
+      const { result } = renderHook(() =>
+        usePersistedForm(FORM_KEY, initialValues, { debounceMs: 1000 })
+      )
+
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toMatchObject({ name: 'Ada' })
+    })
+
+    it('should not write until the form changes', () => {
+      localStorage.setItem(FORM_KEY, JSON.stringify({ name: 'Ada' }))
+      const setItemSpy = jest.spyOn(Storage.prototype, 'setItem')
+
+      renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        jest.advanceTimersByTime(1000)
+      })
+
+      expect(setItemSpy).not.toHaveBeenCalledWith(FORM_KEY, expect.anything())
+
+      setItemSpy.mockRestore()
+    })
+
+    it('should write pending changes on unmount', () => {
+      const { result, unmount } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+      })
+
+      unmount()
+
+      expect(readStored()).toMatchObject({ name: 'Ada' })
+    })
+
+    it('should use the given storage options', () => {
+      const { result } = renderHook(() =>
+        usePersistedForm(FORM_KEY, initialValues, {
+          storageType: 'sessionStorage',
+          namespace: 'checkout',
+        })
+      )
+
+      act(() => {
+        result.current.setValues((prev) => ({ ...prev, name: 'Ada' }))
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(JSON.parse(sessionStorage.getItem('checkout:signup-form') ?? 'null')).toMatchObject({
+        name: 'Ada',
+      })
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+
+      sessionStorage.clear()
+    })
+  })
+
+  describe('Excluded Fields', () => {
+    it('should never write sensitive fields by default', () => {
+      const { result } = renderHook(() =>
+        usePersistedForm(FORM_KEY, {
+          name: '',
+          password: '',
+          accessToken: '',
+          cardNumber: '',
+          card_cvv: '',
+          shipping: '',
+        })
+      )
+
+      act(() => {
+        result.current.setValues({
+          name: 'Ada',
+          password: 'hunter2',
+          accessToken: 'abc',
+          cardNumber: '4242',
+          card_cvv: '123',
+          shipping: 'express',
+        })
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toEqual({ name: 'Ada', shipping: 'express' })
+    })
+
+    it('should skip excluded fields', () => {
+      const { result } = renderHook(() =>
+        usePersistedForm(FORM_KEY, initialValues, { exclude: ['email'] })
+      )
+
+      act(() => {
+        result.current.setValues({ ...initialValues, name: 'Ada', email: 'ada@example.com' })
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toEqual({ name: 'Ada', newsletter: false })
+    })
+
+    it('should write sensitive fields when excludeSensitive is false', () => {
+      const { result } = renderHook(() =>
+        usePersistedForm(FORM_KEY, initialValues, { excludeSensitive: false })
+      )
+
+      act(() => {
+        result.current.setFieldValue('password', 'hunter2')
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toMatchObject({ password: 'hunter2' })
+    })
+  })
+
+  describe('Change Handler', () => {
+    function Form() {
+      const { values, handleChange } = usePersistedForm(FORM_KEY, {
+        name: '',
+        code: '',
+        newsletter: false,
+      })
+
+      return (
+        <form>
+          <input aria-label="name" name="name" value={values.name} onChange={handleChange} />
+          <input
+            aria-label="code"
+            name="code"
+            type="password"
+            value={values.code}
+            onChange={handleChange}
+          />
+          <input
+            aria-label="newsletter"
+            name="newsletter"
+            type="checkbox"
+            checked={values.newsletter}
+            onChange={handleChange}
+          />
+        </form>
+      )
+    }
+
+    it('should update fields and skip password inputs', () => {
+      render(<Form />)
+
+      fireEvent.change(screen.getByLabelText('name'), { target: { value: 'Ada' } })
+      fireEvent.change(screen.getByLabelText('code'), { target: { value: '1234' } })
+      fireEvent.click(screen.getByLabelText('newsletter'))
+
+      expect(screen.getByLabelText('name')).toHaveProperty('value', 'Ada')
+      expect(screen.getByLabelText('newsletter')).toHaveProperty('checked', true)
+
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).toEqual({ name: 'Ada', newsletter: true })
+    })
+  })
+
+  describe('Submit and Reset', () => {
+    it('should remove the snapshot after a successful submit', async () => {
+      const onSubmit = jest.fn()
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(readStored()).not.toBeNull()
+
+      const preventDefault = jest.fn()
+      await act(async () => {
+        await result.current.handleSubmit(onSubmit)({ preventDefault })
+      })
+
+      expect(preventDefault).toHaveBeenCalled()
+      expect(onSubmit).toHaveBeenCalledWith({ ...initialValues, name: 'Ada' })
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+    })
+
+    it('should cancel pending writes on submit', async () => {
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+      })
+
+      await act(async () => {
+        await result.current.handleSubmit(() => Promise.resolve())()
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+    })
+
+    it('should keep the snapshot when submit fails', async () => {
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('name', 'Ada')
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      await act(async () => {
+        await expect(
+          result.current.handleSubmit(() => Promise.reject(new Error('offline')))()
+        ).resolves.toBeUndefined()
+      })
+
+      expect(readStored()).toMatchObject({ name: 'Ada' })
+      expect(result.current.submitError).toEqual(new Error('offline'))
+    })
+
+    it('should clear the submit error once a retry succeeds', async () => {
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      await act(async () => {
+        await result.current.handleSubmit(() => {
+          throw new Error('offline')
+        })()
+      })
+      expect(result.current.submitError).toEqual(new Error('offline'))
+
+      await act(async () => {
+        await result.current.handleSubmit(() => undefined)()
+      })
+      expect(result.current.submitError).toBeNull()
+    })
+
+    it('should go back to the initial values on reset', () => {
+      localStorage.setItem(FORM_KEY, JSON.stringify({ name: 'Ada' }))
+      const { result } = renderHook(() => usePersistedForm(FORM_KEY, initialValues))
+
+      act(() => {
+        result.current.setFieldValue('email', 'ada@example.com')
+      })
+      act(() => {
+        result.current.reset()
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(result.current.values).toEqual(initialValues)
+      expect(result.current.isRestored).toBe(false)
+      expect(localStorage.getItem(FORM_KEY)).toBeNull()
+    })
+  })
+})
@@ -1,5 +1,25 @@
+import React from 'react'
+import 'fake-indexeddb/auto'
 import { renderHook, act, waitFor } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
 import { useStorage } from '../../hooks/useStorage'
+import { createEncryptedAdapter, createMemoryAdapter, memoryAdapter } from '../../adapters'
+import {
+  getCookie,
+  getCookieNames,
+  idbClear,
+  idbGet,
+  idbSet,
+  parseCookies,
+  richSerializer,
+  serializeCookie,
+  sweepExpiredStorage,
+  storageSyncChannel,
+  validateCookieOptions,
+  batchStorageWrites,
+} from '../../utils'
+import * as cookieHelpers from '../../cookies'
+import type { IStorageError, StorageAdapter } from '../../interface'
 
 describe('useStorage', () => {
   const TEST_KEY = 'test-key'
@@ -82,6 +102,7 @@ describe('useStorage', () => {
       expect(result.current).toHaveProperty('removeValue')
       expect(result.current).toHaveProperty('hasValue')
       expect(result.current).toHaveProperty('clear')
+      expect(result.current).toHaveProperty('loading')
       expect(typeof result.current.setValue).toBe('function')
       expect(typeof result.current.removeValue).toBe('function')
       expect(typeof result.current.clear).toBe('function')
@@ -152,8 +173,8 @@ describe('useStorage', () => {
         result.current.setValue('stored')
       })
 
-      // Strings are stored as-is (not JSON.stringify'd)
-      expect(localStorage.getItem(TEST_KEY)).toBe('stored')
+      // Strings are JSON stringified like every other value
+      expect(localStorage.getItem(TEST_KEY)).toBe('"stored"')
     })
 
     it('should update sessionStorage when storageType is sessionStorage', () => {
@@ -165,8 +186,8 @@ describe('useStorage', () => {
         result.current.setValue('session')
       })
 
-      // Strings are stored as-is (not JSON.stringify'd)
-      expect(sessionStorage.getItem(TEST_KEY)).toBe('session')
+      // Strings are JSON stringified like every other value
+      expect(sessionStorage.getItem(TEST_KEY)).toBe('"session"')
     })
 
     it('should remove value when removeValue is called', () => {
@@ -263,6 +284,209 @@ describe('useStorage', () => {
     })
   })
 
+  describe('Status and Errors', () => {
+    // In-memory adapter whose operations can be made to fail
+    const createFlakyAdapter = () => {
+      const data = new Map<string, string>()
+      const failures = { get: false, set: false, clear: false }
+      const adapter: StorageAdapter = {
+        name: 'flaky-test',
+        get: (key) => {
+          if (failures.get) {
+            throw new Error('Read failed')
+          }
+          return data.get(key) ?? null
+        },
+        set: (key, value) => {
+          if (failures.set) {
+            throw new Error('Write failed')
+          }
+          data.set(key, value)
+        },
+        remove: (key) => {
+          data.delete(key)
+        },
+        clear: () => {
+          if (failures.clear) {
+            throw new Error('Clear failed')
+          }
+          data.clear()
+        },
+      }
+      return { adapter, data, failures }
+    }
+
+    it('should be ready once the value is read', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(result.current.status).toBe('ready')
+      expect(result.current.error).toBeNull()
+    })
+
+    it('should be idle while an asynchronous value loads', async () => {
+      const { result } = renderHook(() =>
+        useStorage<string>('status-idb', { storageType: 'indexedDB' })
+      )
+
+      expect(result.current.status).toBe('idle')
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('ready')
+      })
+    })
+
+    it('should report read errors', () => {
+      const logger = { warn: jest.fn() }
+      const onError = jest.fn()
+      const { adapter, failures } = createFlakyAdapter()
+      failures.get = true
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: adapter,
+          defaultValue: 'default',
+          onError,
+          logger,
+        })
+      )
+
+      expect(result.current.value).toBe('default')
+      expect(result.current.status).toBe('error')
+      expect(result.current.error).toMatchObject({
+        type: 'readFailed',
+        operation: 'read',
+        key: TEST_KEY,
+        message: 'Read failed',
+      })
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith(
+        `Error reading flaky-test for key "${TEST_KEY}":`,
+        expect.any(Error)
+      )
+    })
+
+    it('should report parse errors until a valid value is written', () => {
+      const logger = { warn: jest.fn() }
+      const onValidationError = jest.fn()
+      localStorage.setItem(TEST_KEY, JSON.stringify(42))
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          validate: (value): value is string => typeof value === 'string',
+          onValidationError,
+          logger,
+        })
+      )
+
+      expect(result.current.status).toBe('error')
+      expect(result.current.error).toMatchObject({ type: 'parseFailed', operation: 'parse' })
+      expect(result.current.error?.cause).toBeInstanceOf(TypeError)
+      expect(onValidationError).toHaveBeenCalledTimes(1)
+
+      act(() => {
+        result.current.setValue('valid')
+      })
+
+      expect(result.current.status).toBe('ready')
+      expect(result.current.error).toBeNull()
+    })
+
+    it('should report write errors with their cause until a write succeeds', () => {
+      const logger = { warn: jest.fn() }
+      const onError = jest.fn()
+      const { adapter, failures } = createFlakyAdapter()
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, onError, logger })
+      )
+
+      failures.set = true
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(result.current.status).toBe('error')
+      expect(result.current.error).toMatchObject({ type: 'writeFailed', operation: 'write' })
+      expect((result.current.error?.cause as Error).message).toBe('Write failed')
+      expect(onError).toHaveBeenCalledWith(result.current.error)
+
+      failures.set = false
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(result.current.status).toBe('ready')
+      expect(result.current.error).toBeNull()
+    })
+
+    it('should report clear errors', () => {
+      const logger = { warn: jest.fn() }
+      const { adapter, failures } = createFlakyAdapter()
+      failures.clear = true
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, logger })
+      )
+
+      act(() => {
+        result.current.clearAll()
+      })
+
+      expect(result.current.error).toMatchObject({ type: 'clearFailed', operation: 'clear' })
+      expect(logger.warn).toHaveBeenCalledWith('Error clearing flaky-test:', expect.any(Error))
+    })
+
+    it('should report a failing poll once and recover when polling succeeds', () => {
+      jest.useFakeTimers()
+      const logger = { warn: jest.fn() }
+      const onError = jest.fn()
+      const { adapter, data, failures } = createFlakyAdapter()
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, poll: true, onError, logger })
+      )
+
+      failures.get = true
+      act(() => {
+        jest.advanceTimersByTime(4000)
+      })
+
+      expect(result.current.error).toMatchObject({ type: 'pollFailed', operation: 'poll' })
+      expect(onError).toHaveBeenCalledTimes(1)
+
+      failures.get = false
+      data.set(TEST_KEY, JSON.stringify('external'))
+      act(() => {
+        jest.advanceTimersByTime(2000)
+      })
+
+      expect(result.current.value).toBe('external')
+      expect(result.current.status).toBe('ready')
+
+      jest.useRealTimers()
+    })
+
+    it('should route errors through the logger instead of the console', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const logger = { warn: jest.fn() }
+      const { adapter, failures } = createFlakyAdapter()
+      failures.set = true
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, logger })
+      )
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(consoleWarnSpy).not.toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+  })
+
   describe('Cleanup', () => {
     it('should not cause memory leaks on unmount', () => {
       const { unmount } = renderHook(() => useStorage(TEST_KEY, { sync: true }))
@@ -297,8 +521,8 @@ describe('useStorage', () => {
         result.current.setValue('test')
       })
 
-      // Strings are stored as-is (not JSON.stringify'd)
-      expect(localStorage.getItem(TEST_KEY)).toBe('test')
+      // Strings are JSON stringified like every other value
+      expect(localStorage.getItem(TEST_KEY)).toBe('"test"')
       expect(sessionStorage.getItem(TEST_KEY)).toBeNull()
     })
 
@@ -311,8 +535,8 @@ describe('useStorage', () => {
         result.current.setValue('test')
       })
 
-      // Strings are stored as-is (not JSON.stringify'd)
-      expect(sessionStorage.getItem(TEST_KEY)).toBe('test')
+      // Strings are JSON stringified like every other value
+      expect(sessionStorage.getItem(TEST_KEY)).toBe('"test"')
       expect(localStorage.getItem(TEST_KEY)).toBeNull()
     })
 
@@ -345,7 +569,7 @@ describe('useStorage', () => {
         // Create StorageEvent without storageArea (jsdom limitation)
         const event = new StorageEvent('storage', {
           key: TEST_KEY,
-          newValue: 'from-other-tab', // Plain string (stored as-is)
+          newValue: 'from-other-tab', // Plain string written by other code
           oldValue: 'initial',
           url: window.location.href,
         })
@@ -466,7 +690,7 @@ describe('useStorage', () => {
       expect(result.current.value).toBe('value3')
     })
 
-    it('should handle clear method', () => {
+    it('should only clear its own key without a namespace', () => {
       const { result } = renderHook(() => useStorage(TEST_KEY))
 
       act(() => {
@@ -479,11 +703,129 @@ describe('useStorage', () => {
         result.current.clear()
       })
 
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+      expect(localStorage.getItem('other-key')).toBe('other-value')
+      expect(result.current.value).toBeNull()
+    })
+
+    it('should clear the whole storage with clearAll', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('test1')
+      })
+
+      localStorage.setItem('other-key', 'other-value')
+
+      act(() => {
+        result.current.clearAll()
+      })
+
       expect(localStorage.getItem(TEST_KEY)).toBeNull()
       expect(localStorage.getItem('other-key')).toBeNull()
     })
   })
 
+  describe('Scoped Clear', () => {
+    it('should clear only the keys of its namespace', () => {
+      const { result } = renderHook(() => ({
+        settings: useStorage<string>('settings', { namespace: 'app' }),
+        draft: useStorage<string>('draft', { namespace: 'app' }),
+        other: useStorage<string>('settings', { namespace: 'other' }),
+      }))
+
+      act(() => {
+        result.current.settings.setValue('a')
+        result.current.draft.setValue('b')
+        result.current.other.setValue('c')
+      })
+
+      localStorage.setItem('third-party-sdk', 'state')
+
+      act(() => {
+        result.current.settings.clear()
+      })
+
+      expect(localStorage.getItem('app:settings')).toBeNull()
+      expect(localStorage.getItem('app:draft')).toBeNull()
+      expect(localStorage.getItem('other:settings')).toBe('"c"')
+      expect(localStorage.getItem('third-party-sdk')).toBe('state')
+
+      // Hooks of the namespace are reset
+      expect(result.current.settings.value).toBeNull()
+      expect(result.current.draft.value).toBeNull()
+      expect(result.current.other.value).toBe('c')
+    })
+
+    it('should clear namespaced cookies', () => {
+      const { result } = renderHook(() => ({
+        locale: useStorage<string>('locale', { storageType: 'cookie', namespace: 'app' }),
+        theme: useStorage<string>('theme', { storageType: 'cookie', namespace: 'app' }),
+      }))
+
+      act(() => {
+        result.current.locale.setValue('en')
+        result.current.theme.setValue('dark')
+      })
+
+      document.cookie = 'unrelated=1;path=/'
+
+      act(() => {
+        result.current.locale.clear()
+      })
+
+      expect(document.cookie).not.toContain('app%3Alocale')
+      expect(document.cookie).not.toContain('app:locale')
+      expect(document.cookie).not.toContain('theme')
+      expect(document.cookie).toContain('unrelated=1')
+      expect(result.current.theme.value).toBeNull()
+    })
+
+    it('should clear every cookie with clearAll', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: 'cookie' }))
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      document.cookie = 'unrelated=1;path=/'
+
+      act(() => {
+        result.current.clearAll()
+      })
+
+      expect(document.cookie).toBe('')
+      expect(result.current.value).toBeNull()
+    })
+
+    it('should clear namespaced keys of asynchronous adapters', async () => {
+      await idbSet('app:a', '"a"')
+      await idbSet('app:b', '"b"')
+      await idbSet('other:a', '"c"')
+
+      const { result } = renderHook(() =>
+        useStorage<string>('a', { storageType: 'indexedDB', namespace: 'app' })
+      )
+
+      await waitFor(() => {
+        expect(result.current.value).toBe('a')
+      })
+
+      act(() => {
+        result.current.clear()
+      })
+
+      await waitFor(async () => {
+        expect(await idbGet('app:b')).toBeNull()
+      })
+      expect(await idbGet('app:a')).toBeNull()
+      expect(await idbGet('other:a')).toBe('"c"')
+      expect(result.current.value).toBeNull()
+
+      await idbClear()
+    })
+  })
+
   describe('Cookie Storage', () => {
     it('should store value in cookie when storageType is cookie', () => {
       const { result } = renderHook(() => useStorage(TEST_KEY, { storageType: 'cookie' }))
@@ -557,217 +899,2535 @@ describe('useStorage', () => {
     })
   })
 
-  describe('TypeScript Types', () => {
-    it('should infer string type correctly', () => {
-      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+  describe('IndexedDB Storage', () => {
+    beforeEach(async () => {
+      await idbClear()
+    })
 
-      act(() => {
-        result.current.setValue('string')
-      })
+    it('should start loading and resolve with the stored value', async () => {
+      await idbSet(TEST_KEY, JSON.stringify({ draft: 'hello' }))
 
-      const value: string | null = result.current.value
-      expect(typeof value).toBe('string')
-    })
+      const { result } = renderHook(() =>
+        useStorage<{ draft: string }>(TEST_KEY, { storageType: 'indexedDB' })
+      )
 
-    it('should infer number type correctly', () => {
-      const { result } = renderHook(() => useStorage<number>(TEST_KEY))
+      expect(result.current.loading).toBe(true)
+      expect(result.current.value).toBeNull()
 
-      act(() => {
-        result.current.setValue(42)
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
       })
+      expect(result.current.value).toEqual({ draft: 'hello' })
+    })
 
-      const value: number | null = result.current.value
-      expect(typeof value).toBe('number')
+    it('should return defaultValue while loading and when key is missing', async () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'indexedDB', defaultValue: 'fallback' })
+      )
+
+      expect(result.current.value).toBe('fallback')
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+      expect(result.current.value).toBe('fallback')
     })
 
-    it('should infer object type correctly', () => {
-      interface User extends Record<string, unknown> {
-        name: string
-        age: number
-      }
+    it('should persist values written with setValue', async () => {
+      const { result } = renderHook(() =>
+        useStorage<number[]>(TEST_KEY, { storageType: 'indexedDB' })
+      )
 
-      const { result } = renderHook(() => useStorage<User>(TEST_KEY))
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
 
-      const user: User = { name: 'John', age: 30 }
       act(() => {
-        result.current.setValue(user)
+        result.current.setValue([1, 2, 3])
       })
 
-      const value: User | null = result.current.value
-      expect(value).toEqual(user)
+      expect(result.current.value).toEqual([1, 2, 3])
+      await waitFor(async () => {
+        expect(await idbGet(TEST_KEY)).toBe('[1,2,3]')
+      })
     })
 
-    it('should accept valid options', () => {
-      const onChange = (value: string | null) => {
-        expect(value === null || typeof value === 'string').toBe(true)
-      }
+    it('should remove values from IndexedDB', async () => {
+      await idbSet(TEST_KEY, 'stored')
 
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, {
-          storageType: 'localStorage',
-          defaultValue: 'default',
-          onChange,
-        })
+        useStorage<string>(TEST_KEY, { storageType: 'indexedDB' })
       )
 
-      expect(result.current.value).toBe('default')
-    })
-  })
-
-  describe('String Serialization', () => {
-    it('should store plain strings as-is (no JSON.stringify)', () => {
-      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+      await waitFor(() => {
+        expect(result.current.value).toBe('stored')
+      })
 
       act(() => {
-        result.current.setValue('plain-string')
+        result.current.removeValue()
       })
 
-      // String should be stored as-is, not JSON.stringify'd
-      expect(localStorage.getItem(TEST_KEY)).toBe('plain-string')
-      expect(result.current.value).toBe('plain-string')
+      expect(result.current.value).toBeNull()
+      await waitFor(async () => {
+        expect(await idbGet(TEST_KEY)).toBeNull()
+      })
     })
 
-    it('should JSON.stringify complex types (objects)', () => {
-      const { result } = renderHook(() => useStorage(TEST_KEY))
+    it('should not overwrite a value written before loading finished', async () => {
+      await idbSet(TEST_KEY, 'old')
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'indexedDB' })
+      )
 
-      const objectValue = { name: 'John', age: 30 }
       act(() => {
-        result.current.setValue(objectValue)
+        result.current.setValue('new')
       })
 
-      // Object should be JSON stringified
-      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(objectValue))
-      expect(result.current.value).toEqual(objectValue)
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+      expect(result.current.value).toBe('new')
     })
 
-    it('should JSON.stringify complex types (arrays)', () => {
-      const { result } = renderHook(() => useStorage(TEST_KEY))
+    it('should not be loading for synchronous storage types', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY, { storageType: 'localStorage' }))
 
-      const arrayValue = [1, 2, 3, 'test']
-      act(() => {
-        result.current.setValue(arrayValue)
+      expect(result.current.loading).toBe(false)
+    })
+  })
+
+  describe('In-Memory Storage', () => {
+    const throwingStorage = {
+      getItem: () => {
+        throw new Error('SecurityError')
+      },
+      setItem: () => {
+        throw new Error('SecurityError')
+      },
+      removeItem: () => {
+        throw new Error('SecurityError')
+      },
+      clear: () => {},
+      key: () => null,
+      length: 0,
+    }
+
+    const withLocalStorage = (storage: unknown, callback: () => void) => {
+      const originalLocalStorage = window.localStorage
+      Object.defineProperty(window, 'localStorage', {
+        value: storage,
+        writable: true,
+        configurable: true,
       })
 
-      // Array should be JSON stringified
-      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(arrayValue))
-      expect(result.current.value).toEqual(arrayValue)
-    })
+      try {
+        callback()
+      } finally {
+        Object.defineProperty(window, 'localStorage', {
+          value: originalLocalStorage,
+          writable: true,
+          configurable: true,
+        })
+      }
+    }
 
-    it('should JSON.stringify numbers', () => {
-      const { result } = renderHook(() => useStorage<number>(TEST_KEY))
+    it('should keep the values of separately created memory adapters apart', () => {
+      const adapter = createMemoryAdapter()
+      const { result } = renderHook(() => ({
+        global: useStorage<string>('shared-key', { storageType: 'memory' }),
+        own: useStorage<string>('shared-key', { storageType: adapter }),
+      }))
 
       act(() => {
-        result.current.setValue(42)
+        result.current.global.setValue('from-global')
       })
 
-      // Number should be JSON stringified
+      expect(adapter.name).not.toBe(memoryAdapter.name)
+      expect(result.current.own.value).toBeNull()
+
+      act(() => {
+        result.current.global.clearAll()
+      })
+    })
+
+    it('should name encrypted adapters after their id, never their key', () => {
+      const first = createEncryptedAdapter(memoryAdapter, { passphrase: 'first', id: 'a' })
+      const second = createEncryptedAdapter(memoryAdapter, { passphrase: 'second', id: 'b' })
+      const unnamed = createEncryptedAdapter(memoryAdapter, { passphrase: 'first' })
+
+      expect(first.name).toBe('memory:encrypted:a')
+      expect(second.name).toBe('memory:encrypted:b')
+      expect(unnamed.name).toBe('memory:encrypted')
+    })
+
+    it('should keep values in memory with storageType memory', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>('memory-key', { storageType: 'memory' })
+      )
+
+      act(() => {
+        result.current.setValue('in-memory')
+      })
+
+      expect(result.current.value).toBe('in-memory')
+      expect(result.current.isFallback).toBe(false)
+      expect(localStorage.getItem('memory-key')).toBeNull()
+
+      // A new hook reads the value kept in memory
+      const { result: other } = renderHook(() =>
+        useStorage<string>('memory-key', { storageType: 'memory' })
+      )
+      expect(other.current.value).toBe('in-memory')
+
+      act(() => {
+        result.current.clearAll()
+      })
+    })
+
+    it('should not report a fallback when localStorage is available', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY))
+
+      expect(result.current.isFallback).toBe(false)
+    })
+
+    it('should fall back to memory when localStorage throws', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      withLocalStorage(throwingStorage, () => {
+        const { result } = renderHook(() => useStorage<string>('fallback-key'))
+        const { result: other } = renderHook(() => useStorage<string>('fallback-key'))
+
+        expect(result.current.isFallback).toBe(true)
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          'localStorage is not available, falling back to in-memory storage'
+        )
+
+        act(() => {
+          result.current.setValue('kept')
+        })
+
+        expect(result.current.value).toBe('kept')
+        expect(result.current.error).toBeNull()
+        // Other hooks using the same key still update
+        expect(other.current.value).toBe('kept')
+
+        act(() => {
+          result.current.removeValue()
+        })
+
+        expect(other.current.value).toBeNull()
+      })
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should not fall back when localStorage is only full', () => {
+      const fullStorage = {
+        ...throwingStorage,
+        getItem: () => null,
+        setItem: () => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        },
+        removeItem: () => {},
+        length: 3,
+      }
+
+      withLocalStorage(fullStorage, () => {
+        const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+        expect(result.current.isFallback).toBe(false)
+      })
+    })
+  })
+
+  describe('Custom Storage Adapters', () => {
+    const createMemoryAdapter = (): StorageAdapter & { data: Map<string, string> } => {
+      const data = new Map<string, string>()
+      return {
+        name: 'memory-test',
+        data,
+        get: jest.fn((key: string) => data.get(key) ?? null),
+        set: jest.fn((key: string, value: string) => {
+          data.set(key, value)
+        }),
+        remove: jest.fn((key: string) => {
+          data.delete(key)
+        }),
+        keys: () => Array.from(data.keys()),
+        clear: jest.fn(() => data.clear()),
+      }
+    }
+
+    it('should read the initial value from a custom adapter', () => {
+      const adapter = createMemoryAdapter()
+      adapter.data.set(TEST_KEY, JSON.stringify({ theme: 'dark' }))
+
+      const { result } = renderHook(() => useStorage(TEST_KEY, { storageType: adapter }))
+
+      expect(result.current.value).toEqual({ theme: 'dark' })
+      expect(adapter.get).toHaveBeenCalledWith(TEST_KEY)
+    })
+
+    it('should write and remove through a custom adapter', () => {
+      const adapter = createMemoryAdapter()
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { storageType: adapter }))
+
+      act(() => {
+        result.current.setValue(42)
+      })
+
+      expect(adapter.set).toHaveBeenCalledWith(TEST_KEY, '42')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+
+      act(() => {
+        result.current.removeValue()
+      })
+
+      expect(adapter.remove).toHaveBeenCalledWith(TEST_KEY)
+      expect(result.current.value).toBeNull()
+    })
+
+    it('should clear through a custom adapter', () => {
+      const adapter = createMemoryAdapter()
+      const { result } = renderHook(() => useStorage(TEST_KEY, { storageType: adapter }))
+
+      act(() => {
+        result.current.clearAll()
+      })
+
+      expect(adapter.clear).toHaveBeenCalled()
+    })
+
+    it('should receive changes from adapter subscriptions when sync is enabled', () => {
+      let notify: ((value: string | null) => void) | undefined
+      const unsubscribe = jest.fn()
+      const adapter: StorageAdapter = {
+        ...createMemoryAdapter(),
+        subscribe: jest.fn((_key, callback) => {
+          notify = callback
+          return unsubscribe
+        }),
+      }
+
+      const { result, unmount } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, sync: true })
+      )
+
+      expect(adapter.subscribe).toHaveBeenCalledWith(
+        TEST_KEY,
+        expect.any(Function),
+        expect.any(Function)
+      )
+
+      act(() => {
+        notify?.('remote-value')
+      })
+
+      expect(result.current.value).toBe('remote-value')
+
+      unmount()
+      expect(unsubscribe).toHaveBeenCalled()
+    })
+
+    it('should support asynchronous custom adapters', async () => {
+      const adapter: StorageAdapter = {
+        name: 'async-test',
+        async: true,
+        get: () => Promise.resolve(JSON.stringify([1, 2])),
+        set: () => Promise.resolve(),
+        remove: () => Promise.resolve(),
+      }
+
+      const { result } = renderHook(() => useStorage<number[]>(TEST_KEY, { storageType: adapter }))
+
+      expect(result.current.loading).toBe(true)
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+      expect(result.current.value).toEqual([1, 2])
+    })
+
+    it('should warn when an asynchronous write fails', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const adapter: StorageAdapter = {
+        name: 'failing-test',
+        get: () => null,
+        set: () => Promise.reject(new Error('Remote unavailable')),
+        remove: () => Promise.resolve(),
+      }
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: adapter }))
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      await waitFor(() => {
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('failing-test'),
+          expect.any(Error)
+        )
+      })
+
+      consoleWarnSpy.mockRestore()
+    })
+  })
+
+  describe('TypeScript Types', () => {
+    it('should infer string type correctly', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('string')
+      })
+
+      const value: string | null = result.current.value
+      expect(typeof value).toBe('string')
+    })
+
+    it('should infer number type correctly', () => {
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue(42)
+      })
+
+      const value: number | null = result.current.value
+      expect(typeof value).toBe('number')
+    })
+
+    it('should infer object type correctly', () => {
+      interface User extends Record<string, unknown> {
+        name: string
+        age: number
+      }
+
+      const { result } = renderHook(() => useStorage<User>(TEST_KEY))
+
+      const user: User = { name: 'John', age: 30 }
+      act(() => {
+        result.current.setValue(user)
+      })
+
+      const value: User | null = result.current.value
+      expect(value).toEqual(user)
+    })
+
+    it('should accept valid options', () => {
+      const onChange = (value: string | null) => {
+        expect(value === null || typeof value === 'string').toBe(true)
+      }
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'localStorage',
+          defaultValue: 'default',
+          onChange,
+        })
+      )
+
+      expect(result.current.value).toBe('default')
+    })
+
+    it('should only accept values JSON cannot represent with a serializer', () => {
+      // @ts-expect-error Map values require a serializer and deserializer
+      renderHook(() => useStorage<Map<string, Date>>(TEST_KEY))
+      // @ts-expect-error bigint values require a serializer and deserializer
+      renderHook(() => useStorage<bigint>(TEST_KEY, { defaultValue: BigInt(1) }))
+
+      const { result } = renderHook(() => useStorage<Map<string, Date>>(TEST_KEY, richSerializer))
+
+      act(() => {
+        result.current.setValue(new Map([['created', new Date(0)]]))
+      })
+
+      const value: Map<string, Date> | null = result.current.value
+      expect(value?.get('created')).toEqual(new Date(0))
+    })
+  })
+
+  describe('String Serialization', () => {
+    it('should JSON.stringify strings', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('plain-string')
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('"plain-string"')
+      expect(result.current.value).toBe('plain-string')
+    })
+
+    it('should keep numeric strings as strings', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('123')
+      })
+
+      const { result: reader } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(reader.current.value).toBe('123')
+      expect(typeof reader.current.value).toBe('string')
+    })
+
+    it('should JSON.stringify complex types (objects)', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY))
+
+      const objectValue = { name: 'John', age: 30 }
+      act(() => {
+        result.current.setValue(objectValue)
+      })
+
+      // Object should be JSON stringified
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(objectValue))
+      expect(result.current.value).toEqual(objectValue)
+    })
+
+    it('should JSON.stringify complex types (arrays)', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY))
+
+      const arrayValue = [1, 2, 3, 'test']
+      act(() => {
+        result.current.setValue(arrayValue)
+      })
+
+      // Array should be JSON stringified
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(arrayValue))
+      expect(result.current.value).toEqual(arrayValue)
+    })
+
+    it('should JSON.stringify numbers', () => {
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue(42)
+      })
+
+      // Number should be JSON stringified
       expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(42))
       expect(result.current.value).toBe(42)
     })
 
-    it('should JSON.stringify booleans', () => {
-      const { result } = renderHook(() => useStorage<boolean>(TEST_KEY))
+    it('should JSON.stringify booleans', () => {
+      const { result } = renderHook(() => useStorage<boolean>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue(true)
+      })
+
+      // Boolean should be JSON stringified
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(true))
+      expect(result.current.value).toBe(true)
+    })
+
+    it('should handle manually set plain strings in localStorage', () => {
+      // Simulate manually setting a plain string (not JSON.stringify'd)
+      localStorage.setItem(TEST_KEY, 'manually-set-string')
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      // Should read the plain string correctly
+      expect(result.current.value).toBe('manually-set-string')
+    })
+
+    it('should handle manually set JSON strings in localStorage', () => {
+      // Simulate manually setting a JSON string
+      localStorage.setItem(TEST_KEY, JSON.stringify('json-string'))
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      // Should parse JSON and return the string value
+      expect(result.current.value).toBe('json-string')
+    })
+  })
+
+  describe('Custom Serializers', () => {
+    it('should use a custom serializer and deserializer', () => {
+      const serializer = jest.fn((value: number) => `n:${value}`)
+      const deserializer = jest.fn((rawValue: string) => Number(rawValue.slice(2)))
+
+      const { result } = renderHook(() =>
+        useStorage<number>(TEST_KEY, { serializer, deserializer })
+      )
+
+      act(() => {
+        result.current.setValue(42)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('n:42')
+
+      const { result: reader } = renderHook(() =>
+        useStorage<number>(TEST_KEY, { serializer, deserializer })
+      )
+
+      expect(deserializer).toHaveBeenCalledWith('n:42')
+      expect(reader.current.value).toBe(42)
+    })
+
+    it('should fall back to defaultValue when the deserializer throws', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      localStorage.setItem(TEST_KEY, 'corrupted')
+
+      const { result } = renderHook(() =>
+        useStorage<number>(TEST_KEY, {
+          defaultValue: 0,
+          deserializer: () => {
+            throw new Error('Corrupted value')
+          },
+        })
+      )
+
+      expect(result.current.value).toBe(0)
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should round-trip Date, Map, Set, BigInt and undefined with richSerializer', () => {
+      type Rich = {
+        createdAt: Date
+        visits: Map<string, number>
+        tags: Set<string>
+        total: bigint
+        note: undefined
+      }
+      const value: Rich = {
+        createdAt: new Date('2026-03-01T12:00:00Z'),
+        visits: new Map([['home', 3]]),
+        tags: new Set(['a', 'b']),
+        total: BigInt('9007199254740993'),
+        note: undefined,
+      }
+
+      const { result } = renderHook(() => useStorage<Rich>(TEST_KEY, { ...richSerializer }))
+
+      act(() => {
+        result.current.setValue(value)
+      })
+
+      const { result: reader } = renderHook(() => useStorage<Rich>(TEST_KEY, { ...richSerializer }))
+      const restored = reader.current.value as Rich
+
+      expect(restored.createdAt).toBeInstanceOf(Date)
+      expect(restored.createdAt.toISOString()).toBe('2026-03-01T12:00:00.000Z')
+      expect(restored.visits).toEqual(new Map([['home', 3]]))
+      expect(restored.tags).toEqual(new Set(['a', 'b']))
+      expect(restored.total).toBe(BigInt('9007199254740993'))
+      expect('note' in restored).toBe(true)
+      expect(restored.note).toBeUndefined()
+    })
+
+    it('should round-trip top-level rich values', () => {
+      const { result } = renderHook(() => useStorage<Set<number>>(TEST_KEY, { ...richSerializer }))
+
+      act(() => {
+        result.current.setValue(new Set([1, 2, 3]))
+      })
+
+      const { result: reader } = renderHook(() =>
+        useStorage<Set<number>>(TEST_KEY, { ...richSerializer })
+      )
+
+      expect(reader.current.value).toEqual(new Set([1, 2, 3]))
+    })
+
+    it('should read regular JSON values with richSerializer', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ plain: [1, 'two'] }))
+
+      const { result } = renderHook(() => useStorage(TEST_KEY, { ...richSerializer }))
+
+      expect(result.current.value).toEqual({ plain: [1, 'two'] })
+    })
+  })
+
+  describe('Encryption', () => {
+    const encryption = { passphrase: 'correct horse battery staple', iterations: 1000 }
+
+    it('should store encrypted values and decrypt them on read', async () => {
+      const { result, unmount } = renderHook(() =>
+        useStorage<{ email: string }>(TEST_KEY, { encryption })
+      )
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+
+      act(() => {
+        result.current.setValue({ email: 'ada@example.com' })
+      })
+
+      expect(result.current.value).toEqual({ email: 'ada@example.com' })
+
+      await waitFor(() => {
+        expect(localStorage.getItem(TEST_KEY)).toMatch(/^enc:v1:/)
+      })
+      expect(localStorage.getItem(TEST_KEY)).not.toContain('ada@example.com')
+
+      // Read from storage in a fresh hook
+      unmount()
+
+      const { result: reader } = renderHook(() =>
+        useStorage<{ email: string }>(TEST_KEY, { encryption })
+      )
+
+      expect(reader.current.loading).toBe(true)
+
+      await waitFor(() => {
+        expect(reader.current.value).toEqual({ email: 'ada@example.com' })
+      })
+      expect(reader.current.loading).toBe(false)
+    })
+
+    it('should accept a CryptoKey', async () => {
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ])
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { encryption: { key } }))
+
+      act(() => {
+        result.current.setValue('secret')
+      })
+
+      await waitFor(() => {
+        expect(localStorage.getItem(TEST_KEY)).toMatch(/^enc:v1:/)
+      })
+
+      const { result: reader } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { encryption: { key } })
+      )
+
+      await waitFor(() => {
+        expect(reader.current.value).toBe('secret')
+      })
+    })
+
+    it('should fall back to defaultValue when decryption fails', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const { result, unmount } = renderHook(() => useStorage<string>(TEST_KEY, { encryption }))
+
+      act(() => {
+        result.current.setValue('secret')
+      })
+
+      await waitFor(() => {
+        expect(localStorage.getItem(TEST_KEY)).toMatch(/^enc:v1:/)
+      })
+
+      unmount()
+
+      const { result: reader } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          encryption: { passphrase: 'wrong passphrase', iterations: 1000 },
+          defaultValue: 'default',
+        })
+      )
+
+      await waitFor(() => {
+        expect(reader.current.loading).toBe(false)
+      })
+      expect(reader.current.value).toBe('default')
+      expect(consoleWarnSpy).toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should read values stored before encryption was enabled', async () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify('legacy'))
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { encryption }))
+
+      await waitFor(() => {
+        expect(result.current.value).toBe('legacy')
+      })
+    })
+
+    it('should share values between hooks using separately imported copies of a key', async () => {
+      const material = new Uint8Array(32).fill(7)
+      const importKey = () =>
+        crypto.subtle.importKey('raw', material, 'AES-GCM', false, ['encrypt', 'decrypt'])
+      const [firstKey, secondKey] = await Promise.all([importKey(), importKey()])
+
+      const { result } = renderHook(() => ({
+        first: useStorage<string>(TEST_KEY, { encryption: { key: firstKey } }),
+        second: useStorage<string>(TEST_KEY, { encryption: { key: secondKey } }),
+      }))
+
+      await waitFor(() => {
+        expect(result.current.second.loading).toBe(false)
+      })
+
+      act(() => {
+        result.current.first.setValue('dark')
+      })
+
+      expect(result.current.second.value).toBe('dark')
+    })
+
+    it('should decrypt values received through the storage event', async () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { encryption, sync: true }))
+
+      act(() => {
+        result.current.setValue('from-this-tab')
+      })
+
+      await waitFor(() => {
+        expect(localStorage.getItem(TEST_KEY)).toMatch(/^enc:v1:/)
+      })
+
+      // Encrypt a value as another tab would, then remove it so only the event carries it
+      const { result: otherTab } = renderHook(() => useStorage<string>('other-tab', { encryption }))
+      act(() => {
+        otherTab.current.setValue('from-other-tab')
+      })
+      await waitFor(() => {
+        expect(localStorage.getItem('other-tab')).toMatch(/^enc:v1:/)
+      })
+      const encrypted = localStorage.getItem('other-tab')
+
+      act(() => {
+        const event = new StorageEvent('storage', { key: TEST_KEY, newValue: encrypted })
+        Object.defineProperty(event, 'storageArea', { value: window.localStorage })
+        window.dispatchEvent(event)
+      })
+
+      await waitFor(() => {
+        expect(result.current.value).toBe('from-other-tab')
+      })
+    })
+
+    it('should report values from the storage event that fail to decrypt', async () => {
+      const onError = jest.fn()
+      const logger = { warn: jest.fn() }
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { encryption, sync: true, onError, logger })
+      )
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+
+      act(() => {
+        const event = new StorageEvent('storage', { key: TEST_KEY, newValue: 'enc:v1:invalid' })
+        Object.defineProperty(event, 'storageArea', { value: window.localStorage })
+        window.dispatchEvent(event)
+      })
+
+      await waitFor(() => {
+        expect(result.current.error).toMatchObject({ type: 'readFailed', key: TEST_KEY })
+      })
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'read' }))
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(`for key "${TEST_KEY}"`),
+        expect.anything()
+      )
+    })
+  })
+
+  describe('Cookie Helpers', () => {
+    it('should export the cookie helpers from the React-free entry', () => {
+      expect(cookieHelpers.parseCookies).toBe(parseCookies)
+      expect(cookieHelpers.serializeCookie).toBe(serializeCookie)
+      expect(cookieHelpers.validateCookieOptions).toBe(validateCookieOptions)
+    })
+
+    it('should parse a cookie header', () => {
+      expect(parseCookies('theme=%22dark%22; session=abc; empty=')).toEqual({
+        theme: '"dark"',
+        session: 'abc',
+        empty: '',
+      })
+    })
+
+    it('should keep the first value of duplicate cookies and malformed values as-is', () => {
+      expect(parseCookies('a=1; a=2; bad=%E0%A4%A')).toEqual({ a: '1', bad: '%E0%A4%A' })
+    })
+
+    it('should serialize a Set-Cookie header with default attributes', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'))
+
+      expect(serializeCookie('theme', '"dark"')).toBe(
+        'theme=%22dark%22; Expires=Fri, 01 Jan 2027 00:00:00 GMT; Path=/; SameSite=Lax'
+      )
+
+      jest.useRealTimers()
+    })
+
+    it('should serialize all cookie options', () => {
+      expect(
+        serializeCookie('session', 'a b', {
+          expires: 0,
+          path: '/app',
+          domain: 'example.com',
+          secure: true,
+          sameSite: 'Strict',
+        })
+      ).toBe('session=a%20b; Path=/app; Domain=example.com; Secure; SameSite=Strict')
+    })
+
+    it('should round-trip values through serializeCookie and parseCookies', () => {
+      const value = JSON.stringify({ text: 'a=b; c, d ü' })
+      const [pair] = serializeCookie('data', value).split('; ')
+
+      expect(parseCookies(pair).data).toBe(value)
+    })
+
+    it('should reject invalid cookie names', () => {
+      expect(() => serializeCookie('', 'value')).toThrow(TypeError)
+      expect(() => serializeCookie('a=b', 'value')).toThrow(TypeError)
+      expect(() => serializeCookie('a;b', 'value')).toThrow(TypeError)
+      expect(() => serializeCookie('a b', 'value')).toThrow(TypeError)
+    })
+
+    it('should write cookies that the server parses back', () => {
+      const { result } = renderHook(() =>
+        useStorage<{ theme: string }>(TEST_KEY, { storageType: 'cookie' })
+      )
+
+      act(() => {
+        result.current.setValue({ theme: 'dark' })
+      })
+
+      expect(JSON.parse(parseCookies(document.cookie)[TEST_KEY])).toEqual({ theme: 'dark' })
+    })
+
+    it('should serialize Max-Age, HttpOnly, Partitioned and Priority', () => {
+      expect(
+        serializeCookie('session', 'abc', {
+          maxAge: 3600.5,
+          expires: 7,
+          secure: true,
+          httpOnly: true,
+          sameSite: 'None',
+          partitioned: true,
+          priority: 'High',
+        })
+      ).toBe(
+        'session=abc; Max-Age=3600; Path=/; Secure; HttpOnly; SameSite=None; Partitioned; Priority=High'
+      )
+    })
+
+    it('should validate cookie option combinations', () => {
+      expect(validateCookieOptions({ sameSite: 'None', secure: true, partitioned: true })).toEqual(
+        []
+      )
+      expect(validateCookieOptions({ sameSite: 'None', partitioned: true, maxAge: NaN })).toEqual([
+        'SameSite=None cookies must be secure',
+        'Partitioned cookies must be secure',
+        'maxAge must be a finite number of seconds',
+      ])
+      expect(() => serializeCookie('session', 'abc', { sameSite: 'None' })).toThrow(TypeError)
+    })
+
+    it('should warn about invalid cookie options and fail writes', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { sameSite: 'None' },
+        })
+      )
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Invalid cookie options: SameSite=None cookies must be secure'
+      )
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(result.current.error?.type).toBe('writeFailed')
+      expect(getCookie(TEST_KEY)).toBeNull()
+
+      warnSpy.mockRestore()
+    })
+
+    it('should report invalid cookie options to the logger', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const logger = { warn: jest.fn() }
+      renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { sameSite: 'None', maxAge: 3600 },
+          logger,
+        })
+      )
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Invalid cookie options: SameSite=None cookies must be secure'
+      )
+      expect(warnSpy).not.toHaveBeenCalled()
+
+      warnSpy.mockRestore()
+    })
+
+    it('should warn that httpOnly cookies cannot be written from the browser', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { httpOnly: true },
+        })
+      )
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('httpOnly cookies'))
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(result.current.error?.type).toBe('writeFailed')
+      expect(getCookie(TEST_KEY)).toBeNull()
+
+      warnSpy.mockRestore()
+    })
+  })
+
+  describe('Cookie Size Limit', () => {
+    const largeValue = 'ü'.repeat(3000) // ~18KB once URI-encoded
+
+    it('should split large values across several cookies', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: 'cookie' }))
+
+      act(() => {
+        result.current.setValue(largeValue)
+      })
+
+      const cookies = parseCookies(document.cookie)
+      expect(cookies[TEST_KEY]).toMatch(/^__rhc_chunks:\d+$/)
+      expect(cookies[`${TEST_KEY}.0`]).toBeDefined()
+      expect(getCookie(TEST_KEY)).toBe(JSON.stringify(largeValue))
+      expect(getCookieNames()).toEqual([TEST_KEY])
+
+      // A new hook reads the joined value
+      const { result: reader } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'cookie' })
+      )
+      expect(reader.current.value).toBe(largeValue)
+    })
+
+    it('should remove leftover chunks when the value shrinks', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: 'cookie' }))
+
+      act(() => {
+        result.current.setValue(largeValue)
+      })
+
+      act(() => {
+        result.current.setValue('small')
+      })
+
+      expect(Object.keys(parseCookies(document.cookie))).toEqual([TEST_KEY])
+      expect(result.current.value).toBe('small')
+    })
+
+    it('should remove all chunks with removeValue', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: 'cookie' }))
+
+      act(() => {
+        result.current.setValue(largeValue)
+      })
+
+      act(() => {
+        result.current.removeValue()
+      })
+
+      expect(document.cookie).toBe('')
+      expect(result.current.value).toBeNull()
+    })
+  })
+
+  describe('Cookie Expiration', () => {
+    it('should create session cookie when expires is 0', () => {
+      const { result } = renderHook(() =>
+        useStorage(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { expires: 0, path: '/' },
+        })
+      )
+
+      act(() => {
+        result.current.setValue('session-value')
+      })
+
+      // Cookie should be set without expires attribute (session cookie)
+      const cookie = document.cookie
+      expect(cookie).toContain(TEST_KEY)
+      expect(cookie).not.toContain('expires=')
+      expect(result.current.value).toBe('session-value')
+    })
+
+    it('should create cookie with default expiration (365 days) when undefined)', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { path: '/' },
+        })
+      )
+
+      act(() => {
+        result.current.setValue('default-expires')
+      })
+
+      // Cookie should be set (expires attribute is set but not visible in document.cookie)
+      const cookie = document.cookie
+      expect(cookie).toContain(TEST_KEY)
+      expect(result.current.value).toBe('default-expires')
+
+      // Verify cookie exists by reading it back
+      const cookieValue = document.cookie
+        .split(';')
+        .find((c) => c.trim().startsWith(`${TEST_KEY}=`))
+      expect(cookieValue).toBeTruthy()
+    })
+
+    it('should create cookie with custom expiration days', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { expires: 7, path: '/' },
+        })
+      )
+
+      act(() => {
+        result.current.setValue('custom-expires')
+      })
+
+      // Cookie should be set (expires attribute is set but not visible in document.cookie)
+      const cookie = document.cookie
+      expect(cookie).toContain(TEST_KEY)
+      expect(result.current.value).toBe('custom-expires')
+
+      // Verify cookie exists by reading it back
+      const cookieValue = document.cookie
+        .split(';')
+        .find((c) => c.trim().startsWith(`${TEST_KEY}=`))
+      expect(cookieValue).toBeTruthy()
+    })
+  })
+
+  describe('Validation', () => {
+    interface IUser extends Record<string, unknown> {
+      id: number
+      name: string
+    }
+
+    const isUser = (value: unknown): value is IUser =>
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as IUser).id === 'number' &&
+      typeof (value as IUser).name === 'string'
+
+    const fallbackUser: IUser = { id: 0, name: 'Guest' }
+
+    it('should return values that pass the type guard', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ id: 1, name: 'Ada' }))
+
+      const { result } = renderHook(() =>
+        useStorage<IUser>(TEST_KEY, { validate: isUser, defaultValue: fallbackUser })
+      )
+
+      expect(result.current.value).toEqual({ id: 1, name: 'Ada' })
+    })
+
+    it('should fall back to defaultValue when the type guard fails', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const onValidationError = jest.fn()
+      localStorage.setItem(TEST_KEY, JSON.stringify({ id: '1', fullName: 'Ada' }))
+
+      const { result } = renderHook(() =>
+        useStorage<IUser>(TEST_KEY, {
+          validate: isUser,
+          defaultValue: fallbackUser,
+          onValidationError,
+        })
+      )
+
+      expect(result.current.value).toEqual(fallbackUser)
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.any(TypeError),
+        JSON.stringify({ id: '1', fullName: 'Ada' })
+      )
+      expect(consoleWarnSpy).toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should use the value returned by a parse function', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ id: 1, name: 'Ada', extra: true }))
+      const parse = (value: unknown): IUser => {
+        if (!isUser(value)) {
+          throw new Error('Invalid user')
+        }
+        return { id: value.id, name: value.name }
+      }
+
+      const { result } = renderHook(() => useStorage<IUser>(TEST_KEY, { parse }))
+
+      expect(result.current.value).toEqual({ id: 1, name: 'Ada' })
+    })
+
+    it('should fall back to defaultValue when the parse function throws', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const onValidationError = jest.fn()
+      const parseError = new Error('Invalid user')
+      localStorage.setItem(TEST_KEY, 'not-a-user')
+
+      const { result } = renderHook(() =>
+        useStorage<IUser>(TEST_KEY, {
+          parse: () => {
+            throw parseError
+          },
+          defaultValue: fallbackUser,
+          onValidationError,
+        })
+      )
+
+      expect(result.current.value).toEqual(fallbackUser)
+      expect(onValidationError).toHaveBeenCalledWith(parseError, 'not-a-user')
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should validate values received from other hooks', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const { result: writer } = renderHook(() => useStorage(TEST_KEY))
+      const { result: reader } = renderHook(() =>
+        useStorage<IUser>(TEST_KEY, { validate: isUser, defaultValue: fallbackUser })
+      )
+
+      act(() => {
+        writer.current.setValue({ unexpected: 'shape' })
+      })
+
+      expect(reader.current.value).toEqual(fallbackUser)
+
+      act(() => {
+        writer.current.setValue({ id: 2, name: 'Grace' })
+      })
+
+      expect(reader.current.value).toEqual({ id: 2, name: 'Grace' })
+
+      consoleWarnSpy.mockRestore()
+    })
+  })
+
+  describe('Versioning and Migrations', () => {
+    const envelope = (version: number, value: unknown) =>
+      JSON.stringify({ __rhc: 1, v: version, d: JSON.stringify(value) })
+
+    it('should store the version alongside the value', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY, { version: 2 }))
+
+      act(() => {
+        result.current.setValue({ theme: 'dark' })
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(envelope(2, { theme: 'dark' }))
+      expect(result.current.value).toEqual({ theme: 'dark' })
+    })
+
+    it('should read values stored with the current version', () => {
+      localStorage.setItem(TEST_KEY, envelope(2, { theme: 'dark' }))
+
+      const { result } = renderHook(() => useStorage(TEST_KEY, { version: 2 }))
+
+      expect(result.current.value).toEqual({ theme: 'dark' })
+    })
+
+    it('should migrate values stored with an older version', () => {
+      localStorage.setItem(TEST_KEY, envelope(1, { darkMode: true }))
+      const migrate = jest.fn((oldValue: unknown) => ({
+        theme: (oldValue as { darkMode: boolean }).darkMode ? 'dark' : 'light',
+      }))
+
+      const { result } = renderHook(() =>
+        useStorage<{ theme: string }>(TEST_KEY, { version: 2, migrate })
+      )
+
+      expect(migrate).toHaveBeenCalledWith({ darkMode: true }, 1)
+      expect(result.current.value).toEqual({ theme: 'dark' })
+    })
+
+    it('should treat values stored without a version as version 0', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify(['a', 'b']))
+      const migrate = jest.fn((oldValue: unknown) => ({ items: oldValue as string[] }))
+
+      const { result } = renderHook(() =>
+        useStorage<{ items: string[] }>(TEST_KEY, { version: 1, migrate })
+      )
+
+      expect(migrate).toHaveBeenCalledWith(['a', 'b'], 0)
+      expect(result.current.value).toEqual({ items: ['a', 'b'] })
+    })
+
+    it('should fall back to defaultValue when an outdated value cannot be migrated', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const onValidationError = jest.fn()
+      localStorage.setItem(TEST_KEY, envelope(1, { old: true }))
+
+      const { result } = renderHook(() =>
+        useStorage(TEST_KEY, { version: 2, defaultValue: { fresh: true }, onValidationError })
+      )
+
+      expect(result.current.value).toEqual({ fresh: true })
+      expect(onValidationError).toHaveBeenCalled()
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should not migrate values stored with a newer version', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const migrate = jest.fn()
+      localStorage.setItem(TEST_KEY, envelope(3, { future: true }))
+
+      const { result } = renderHook(() =>
+        useStorage(TEST_KEY, { version: 2, migrate, defaultValue: { fresh: true } })
+      )
+
+      expect(migrate).not.toHaveBeenCalled()
+      expect(result.current.value).toEqual({ fresh: true })
+
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should migrate values received through the storage event', () => {
+      const { result } = renderHook(() =>
+        useStorage<{ count: number }>(TEST_KEY, {
+          sync: true,
+          version: 2,
+          migrate: (oldValue) => ({ count: oldValue as number }),
+        })
+      )
+
+      act(() => {
+        const event = new StorageEvent('storage', {
+          key: TEST_KEY,
+          newValue: envelope(1, 7),
+        })
+        Object.defineProperty(event, 'storageArea', { value: window.localStorage })
+        window.dispatchEvent(event)
+      })
+
+      expect(result.current.value).toEqual({ count: 7 })
+    })
+
+    it('should read versioned values without versioning enabled', () => {
+      localStorage.setItem(TEST_KEY, envelope(4, 'plain'))
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(result.current.value).toBe('plain')
+    })
+  })
+
+  describe('Time-to-Live', () => {
+    const NOW = new Date('2026-01-01T00:00:00Z').getTime()
+    const withExpiry = (expiresAt: number, value: unknown) =>
+      JSON.stringify({ __rhc: 1, e: expiresAt, d: JSON.stringify(value) })
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(NOW)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should store an expiry timestamp when ttl is set', () => {
+      const { result } = renderHook(() => useStorage(TEST_KEY, { ttl: 60_000 }))
+
+      act(() => {
+        result.current.setValue({ token: 'abc' })
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(withExpiry(NOW + 60_000, { token: 'abc' }))
+      expect(result.current.value).toEqual({ token: 'abc' })
+    })
+
+    it('should allow overriding ttl per setValue call', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', ttl: 60_000 })
+      )
+
+      act(() => {
+        result.current.setValue('short-lived', { ttl: 1_000 })
+      })
+
+      expect(sessionStorage.getItem(TEST_KEY)).toBe(withExpiry(NOW + 1_000, 'short-lived'))
+
+      act(() => {
+        result.current.setValue('forever', { ttl: 0 })
+      })
+
+      expect(sessionStorage.getItem(TEST_KEY)).toBe('"forever"')
+    })
+
+    it('should read unexpired values', () => {
+      localStorage.setItem(TEST_KEY, withExpiry(NOW + 1, 'fresh'))
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(result.current.value).toBe('fresh')
+    })
+
+    it('should return defaultValue and remove expired values', () => {
+      localStorage.setItem(TEST_KEY, withExpiry(NOW - 1, 'stale'))
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { defaultValue: 'default' }))
+
+      expect(result.current.value).toBe('default')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should remove a mounted value once it expires', () => {
+      ;(Date.now as jest.Mock).mockRestore()
+      jest.useFakeTimers({ now: NOW })
+
+      const { result } = renderHook(() => ({
+        writer: useStorage<string>(TEST_KEY, { ttl: 1_000 }),
+        reader: useStorage<string>(TEST_KEY, { defaultValue: 'default' }),
+      }))
+
+      act(() => {
+        result.current.writer.setValue('v')
+      })
+
+      expect(result.current.reader.value).toBe('v')
+
+      act(() => {
+        jest.advanceTimersByTime(999)
+      })
+
+      expect(result.current.writer.value).toBe('v')
+
+      act(() => {
+        jest.advanceTimersByTime(1)
+      })
+
+      expect(result.current.writer.value).toBeNull()
+      expect(result.current.reader.value).toBe('default')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+
+      jest.useRealTimers()
+    })
+
+    it('should reset mounted hooks when sweeping', async () => {
+      localStorage.setItem(TEST_KEY, withExpiry(NOW + 1000, 'v'))
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { defaultValue: 'default' }))
+
+      expect(result.current.value).toBe('v')
+
+      jest.spyOn(Date, 'now').mockReturnValue(NOW + 2000)
+      await act(async () => {
+        await sweepExpiredStorage('localStorage')
+      })
+
+      expect(result.current.value).toBe('default')
+    })
+
+    it('should sweep expired keys and keep the rest', async () => {
+      localStorage.setItem('expired-1', withExpiry(NOW - 1, 'a'))
+      localStorage.setItem('expired-2', withExpiry(NOW - 1000, 'b'))
+      localStorage.setItem('fresh', withExpiry(NOW + 1000, 'c'))
+      localStorage.setItem('plain', 'd')
+
+      const removed = await sweepExpiredStorage('localStorage')
+
+      expect(removed.sort()).toEqual(['expired-1', 'expired-2'])
+      expect(localStorage.getItem('expired-1')).toBeNull()
+      expect(localStorage.getItem('fresh')).not.toBeNull()
+      expect(localStorage.getItem('plain')).toBe('d')
+    })
+
+    it('should sweep sessionStorage', async () => {
+      sessionStorage.setItem('expired', withExpiry(NOW - 1, 'a'))
+
+      const removed = await sweepExpiredStorage('sessionStorage')
+
+      expect(removed).toEqual(['expired'])
+      expect(sessionStorage.getItem('expired')).toBeNull()
+    })
+  })
+
+  describe('Functional Updates', () => {
+    it('should pass the current value to an updater function', () => {
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { defaultValue: 1 }))
+
+      act(() => {
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+      })
+
+      expect(result.current.value).toBe(2)
+      expect(localStorage.getItem(TEST_KEY)).toBe('2')
+    })
+
+    it('should apply consecutive updaters in order', () => {
+      const { result } = renderHook(() => useStorage<number[]>(TEST_KEY, { defaultValue: [] }))
+
+      act(() => {
+        result.current.setValue((prev) => [...(prev ?? []), 1])
+        result.current.setValue((prev) => [...(prev ?? []), 2])
+      })
+
+      expect(result.current.value).toEqual([1, 2])
+    })
+
+    it('should not clobber updates made by other hooks with the same key', () => {
+      const first = renderHook(() => useStorage<number>(TEST_KEY, { defaultValue: 0 }))
+      const second = renderHook(() => useStorage<number>(TEST_KEY, { defaultValue: 0 }))
+
+      act(() => {
+        first.result.current.setValue((prev) => (prev ?? 0) + 1)
+        second.result.current.setValue((prev) => (prev ?? 0) + 1)
+      })
+
+      expect(first.result.current.value).toBe(2)
+      expect(second.result.current.value).toBe(2)
+      expect(localStorage.getItem(TEST_KEY)).toBe('2')
+    })
+
+    it('should read the persisted value at write time', () => {
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { defaultValue: 0 }))
+
+      // Written outside the hook, without polling
+      localStorage.setItem(TEST_KEY, '10')
+
+      act(() => {
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+      })
+
+      expect(result.current.value).toBe(11)
+    })
+
+    it('should remove the value when the updater returns null', () => {
+      localStorage.setItem(TEST_KEY, '"value"')
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue(() => null)
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should use the last known value for asynchronous adapters', async () => {
+      const data = new Map<string, string>([[TEST_KEY, '5']])
+      const adapter: StorageAdapter = {
+        name: 'async-updater-test',
+        async: true,
+        get: async (key: string) => data.get(key) ?? null,
+        set: async (key: string, value: string) => {
+          data.set(key, value)
+        },
+        remove: async (key: string) => {
+          data.delete(key)
+        },
+      }
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { storageType: adapter }))
+
+      await waitFor(() => {
+        expect(result.current.value).toBe(5)
+      })
+
+      act(() => {
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+      })
+
+      expect(result.current.value).toBe(7)
+      await waitFor(() => {
+        expect(data.get(TEST_KEY)).toBe('7')
+      })
+    })
+  })
+
+  describe('Quota Handling and Eviction', () => {
+    // Adapter that rejects writes once the stored characters exceed a limit
+    const createLimitedAdapter = (
+      limit: number
+    ): StorageAdapter & { data: Map<string, string> } => {
+      const data = new Map<string, string>()
+      const size = () => Array.from(data.values()).reduce((total, v) => total + v.length, 0)
+      return {
+        name: 'limited-test',
+        data,
+        get: (key: string) => data.get(key) ?? null,
+        set: (key: string, value: string) => {
+          const previous = data.get(key)?.length ?? 0
+          if (size() - previous + value.length > limit) {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError')
+          }
+          data.set(key, value)
+        },
+        remove: (key: string) => {
+          data.delete(key)
+        },
+      }
+    }
+
+    it('should stop evicting when evicted keys cannot be removed', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const data = new Map<string, string>([
+        ['__rhc_lru:cache', JSON.stringify({ a: 1, b: 2 })],
+        ['a', '"a"'],
+        ['b', '"b"'],
+      ])
+      const set = jest.fn(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      })
+      const adapter: StorageAdapter = {
+        name: 'stuck-test',
+        get: (key) => data.get(key) ?? null,
+        set,
+        remove: () => {
+          throw new Error('Remove failed')
+        },
+      }
+
+      const { result } = renderHook(() =>
+        useStorage<string>('c', { storageType: adapter, eviction: { namespace: 'cache' } })
+      )
+
+      act(() => {
+        result.current.setValue('c')
+      })
+
+      // One attempt per evicted key (a and b) plus the first one
+      expect(set.mock.calls.filter(([key]) => key === 'c')).toHaveLength(3)
+      expect(result.current.error?.type).toBe('quotaExceeded')
+
+      warnSpy.mockRestore()
+    })
+
+    it('should expose a typed quotaExceeded error and keep the persisted value', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const adapter = createLimitedAdapter(10)
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: adapter }))
+
+      act(() => {
+        result.current.setValue('ok')
+      })
+
+      expect(result.current.error).toBeNull()
+
+      act(() => {
+        result.current.setValue('much too long for the quota')
+      })
+
+      expect(result.current.value).toBe('ok')
+      expect(adapter.data.get(TEST_KEY)).toBe('"ok"')
+      expect(result.current.error).toMatchObject({ type: 'quotaExceeded', key: TEST_KEY })
+      expect(result.current.error?.cause).toBeInstanceOf(DOMException)
+
+      // A successful write resets the error
+      act(() => {
+        result.current.setValue('fine')
+      })
+
+      expect(result.current.error).toBeNull()
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should report other write failures as writeFailed', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const adapter: StorageAdapter = {
+        name: 'broken-test',
+        get: () => null,
+        set: () => {
+          throw new Error('Disk error')
+        },
+        remove: () => {},
+      }
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { storageType: adapter }))
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(result.current.error).toMatchObject({ type: 'writeFailed', message: 'Disk error' })
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should call onQuotaExceeded and retry when it returns true', () => {
+      const adapter = createLimitedAdapter(10)
+      adapter.data.set('stale-cache', '"12345678"')
+
+      const onQuotaExceeded = jest.fn(() => {
+        adapter.data.delete('stale-cache')
+        return true
+      })
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, onQuotaExceeded })
+      )
+
+      act(() => {
+        result.current.setValue('fresh')
+      })
+
+      expect(onQuotaExceeded).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'quotaExceeded', key: TEST_KEY })
+      )
+      expect(result.current.value).toBe('fresh')
+      expect(result.current.error).toBeNull()
+      expect(adapter.data.get(TEST_KEY)).toBe('"fresh"')
+    })
+
+    it('should not retry when onQuotaExceeded does not return true', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const adapter = createLimitedAdapter(5)
+      const onQuotaExceeded = jest.fn()
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, onQuotaExceeded })
+      )
+
+      act(() => {
+        result.current.setValue('too long')
+      })
+
+      expect(onQuotaExceeded).toHaveBeenCalledTimes(1)
+      expect(result.current.error?.type).toBe('quotaExceeded')
+      expect(result.current.value).toBeNull()
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('should evict the least recently used keys of the namespace', () => {
+      jest.useFakeTimers()
+      const adapter = createLimitedAdapter(60)
+      const eviction = { policy: 'lru' as const, namespace: 'cache' }
+
+      const oldest = renderHook(() => useStorage<string>('a', { storageType: adapter, eviction }))
+      const newest = renderHook(() => useStorage<string>('b', { storageType: adapter, eviction }))
+      const other = renderHook(() => useStorage<string>('c', { storageType: adapter }))
+
+      act(() => {
+        oldest.result.current.setValue('aaaa')
+      })
+      jest.advanceTimersByTime(10)
+      act(() => {
+        newest.result.current.setValue('bbbb')
+      })
+      jest.advanceTimersByTime(10)
+      act(() => {
+        other.result.current.setValue('cccc')
+      })
+
+      const important = renderHook(() =>
+        useStorage<string>('important', { storageType: adapter, eviction })
+      )
+
+      act(() => {
+        important.result.current.setValue('iiiiiii')
+      })
+
+      expect(important.result.current.error).toBeNull()
+      expect(adapter.data.get('important')).toBe('"iiiiiii"')
+      expect(adapter.data.has('a')).toBe(false)
+      expect(adapter.data.has('b')).toBe(true)
+      // Keys outside the namespace are never evicted
+      expect(adapter.data.has('c')).toBe(true)
+      // Hooks using evicted keys are reset
+      expect(oldest.result.current.value).toBeNull()
+
+      jest.useRealTimers()
+    })
+
+    it('should treat reads on mount as accesses', () => {
+      jest.useFakeTimers()
+      const adapter = createLimitedAdapter(60)
+      const eviction = { namespace: 'cache' }
+
+      const first = renderHook(() => useStorage<string>('a', { storageType: adapter, eviction }))
+      act(() => {
+        first.result.current.setValue('aaaa')
+      })
+      jest.advanceTimersByTime(10)
+      const second = renderHook(() => useStorage<string>('b', { storageType: adapter, eviction }))
+      act(() => {
+        second.result.current.setValue('bbbb')
+      })
+      jest.advanceTimersByTime(10)
+
+      // Reading "a" again makes "b" the least recently used key
+      renderHook(() => useStorage<string>('a', { storageType: adapter, eviction }))
+
+      const third = renderHook(() => useStorage<string>('c', { storageType: adapter, eviction }))
+      act(() => {
+        third.result.current.setValue('ccccccccccc')
+      })
+
+      expect(adapter.data.has('a')).toBe(true)
+      expect(adapter.data.has('b')).toBe(false)
+      expect(adapter.data.get('c')).toBe('"ccccccccccc"')
+
+      jest.useRealTimers()
+    })
+
+    it('should restore the persisted value when an async write fails', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const data = new Map<string, string>([[TEST_KEY, '"persisted"']])
+      const adapter: StorageAdapter = {
+        name: 'async-quota-test',
+        async: true,
+        get: async (key: string) => data.get(key) ?? null,
+        set: async () => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        },
+        remove: async () => {},
+      }
+      const onQuotaExceeded = jest.fn()
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, onQuotaExceeded })
+      )
+
+      await waitFor(() => {
+        expect(result.current.value).toBe('persisted')
+      })
+
+      act(() => {
+        result.current.setValue('optimistic')
+      })
+
+      expect(result.current.value).toBe('optimistic')
+
+      await waitFor(() => {
+        expect(result.current.value).toBe('persisted')
+      })
+      expect(result.current.error?.type).toBe('quotaExceeded')
+      expect(onQuotaExceeded).toHaveBeenCalledTimes(1)
+      consoleWarnSpy.mockRestore()
+    })
+  })
+
+  describe('Batch Writes', () => {
+    // Adapter that rejects writes of the given key
+    const createFailingAdapter = (
+      failingKey: string
+    ): StorageAdapter & { data: Map<string, string> } => {
+      const data = new Map<string, string>()
+      return {
+        name: 'batch-test',
+        data,
+        get: (key: string) => data.get(key) ?? null,
+        set: (key: string, value: string) => {
+          if (key === failingKey) {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError')
+          }
+          data.set(key, value)
+        },
+        remove: (key: string) => {
+          data.delete(key)
+        },
+      }
+    }
+
+    it('should write all values and update hooks once', () => {
+      const onCartChange = jest.fn()
+      const onCouponChange = jest.fn()
+      localStorage.setItem('coupon', JSON.stringify('SAVE10'))
+      let renders = 0
+
+      const { result } = renderHook(() => {
+        renders += 1
+        return {
+          cart: useStorage<string[]>('cart', { onChange: onCartChange }),
+          shipping: useStorage<string>('shipping'),
+          coupon: useStorage<string>('coupon', { onChange: onCouponChange }),
+        }
+      })
+      const rendersBefore = renders
+
+      let error: IStorageError | null = null
+      act(() => {
+        error = batchStorageWrites(() => {
+          result.current.cart.setValue(['book'])
+          result.current.shipping.setValue('express')
+          result.current.coupon.removeValue()
+
+          // Nothing is written before the batch is committed
+          expect(localStorage.getItem('cart')).toBeNull()
+        })
+      })
+
+      expect(error).toBeNull()
+      expect(renders).toBe(rendersBefore + 1)
+      expect(result.current.cart.value).toEqual(['book'])
+      expect(result.current.shipping.value).toBe('express')
+      expect(result.current.coupon.value).toBeNull()
+      expect(localStorage.getItem('coupon')).toBeNull()
+      expect(onCartChange).toHaveBeenCalledTimes(1)
+      expect(onCouponChange).toHaveBeenCalledWith(null)
+    })
+
+    it('should pass staged values to functional updates', () => {
+      const onChange = jest.fn()
+      const { result } = renderHook(() => useStorage<number>('count', { onChange }))
+
+      act(() => {
+        batchStorageWrites(() => {
+          result.current.setValue((prev) => (prev ?? 0) + 1)
+          result.current.setValue((prev) => (prev ?? 0) + 1)
+        })
+      })
+
+      expect(result.current.value).toBe(2)
+      expect(onChange).toHaveBeenCalledTimes(1)
+    })
+
+    it('should restore previous values when a write fails', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const adapter = createFailingAdapter('coupon')
+      adapter.data.set('cart', JSON.stringify(['pen']))
+
+      const { result } = renderHook(() => ({
+        cart: useStorage<string[]>('cart', { storageType: adapter }),
+        shipping: useStorage<string>('shipping', { storageType: adapter }),
+        coupon: useStorage<string>('coupon', { storageType: adapter }),
+      }))
+
+      let error: IStorageError | null = null
+      act(() => {
+        error = batchStorageWrites(() => {
+          result.current.cart.setValue(['book'])
+          result.current.shipping.setValue('express')
+          result.current.coupon.setValue('SAVE10')
+        })
+      })
+
+      expect(error).toMatchObject({ type: 'quotaExceeded', key: 'coupon' })
+      expect(adapter.data.get('cart')).toBe(JSON.stringify(['pen']))
+      expect(adapter.data.has('shipping')).toBe(false)
+      expect(result.current.cart.value).toEqual(['pen'])
+      expect(result.current.shipping.value).toBeNull()
+      expect(result.current.cart.error?.key).toBe('coupon')
+      expect(result.current.coupon.error?.type).toBe('quotaExceeded')
+
+      expect(warnSpy).toHaveBeenCalledTimes(1)
+      warnSpy.mockRestore()
+    })
+
+    it('should report values that cannot be restored after a failed batch', () => {
+      const onError = jest.fn()
+      const logger = { warn: jest.fn() }
+      const adapter = createFailingAdapter('coupon')
+      adapter.remove = () => {
+        throw new Error('locked')
+      }
+
+      const { result } = renderHook(() => ({
+        shipping: useStorage<string>('shipping', { storageType: adapter, onError, logger }),
+        coupon: useStorage<string>('coupon', { storageType: adapter, onError, logger }),
+      }))
+
+      act(() => {
+        batchStorageWrites(() => {
+          result.current.shipping.setValue('express')
+          result.current.coupon.setValue('SAVE10')
+        })
+      })
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Error restoring batch-test for key "shipping":',
+        new Error('locked')
+      )
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'shipping', type: 'writeFailed' })
+      )
+    })
+
+    it('should write nothing if the callback throws', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(() =>
+        batchStorageWrites(() => {
+          result.current.setValue('value')
+          throw new Error('aborted')
+        })
+      ).toThrow('aborted')
+
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+      expect(result.current.value).toBeNull()
+    })
+
+    it('should commit nested batches with the outer batch', () => {
+      const { result } = renderHook(() => ({
+        a: useStorage<string>('a'),
+        b: useStorage<string>('b'),
+      }))
+
+      act(() => {
+        batchStorageWrites(() => {
+          result.current.a.setValue('a')
+          batchStorageWrites(() => {
+            result.current.b.setValue('b')
+          })
+
+          expect(localStorage.getItem('b')).toBeNull()
+        })
+      })
+
+      expect(result.current.a.value).toBe('a')
+      expect(result.current.b.value).toBe('b')
+    })
+  })
+
+  describe('Delayed Writes', () => {
+    beforeEach(() => {
+      jest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    const countWrites = (setItemSpy: jest.SpyInstance) =>
+      setItemSpy.mock.calls.filter(([key]) => key === TEST_KEY).length
+
+    it('should update the value immediately and write once after writeDebounceMs', () => {
+      const setItemSpy = jest.spyOn(Storage.prototype, 'setItem')
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { writeDebounceMs: 300 }))
+
+      act(() => {
+        result.current.setValue('a')
+      })
+      act(() => {
+        jest.advanceTimersByTime(200)
+        result.current.setValue('ab')
+      })
+
+      expect(result.current.value).toBe('ab')
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+
+      act(() => {
+        jest.advanceTimersByTime(200)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+
+      act(() => {
+        jest.advanceTimersByTime(100)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('ab'))
+      expect(countWrites(setItemSpy)).toBe(1)
+
+      setItemSpy.mockRestore()
+    })
+
+    it('should write the first value at once and the last value of each interval with writeThrottleMs', () => {
+      const setItemSpy = jest.spyOn(Storage.prototype, 'setItem')
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { writeThrottleMs: 1000 }))
+
+      act(() => {
+        result.current.setValue(1)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('1')
+
+      act(() => {
+        result.current.setValue(2)
+        result.current.setValue(3)
+      })
+      act(() => {
+        jest.advanceTimersByTime(500)
+        result.current.setValue(4)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('1')
+
+      act(() => {
+        jest.advanceTimersByTime(500)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('4')
+      expect(countWrites(setItemSpy)).toBe(2)
+
+      setItemSpy.mockRestore()
+    })
+
+    it('should not postpone writes for longer than writeThrottleMs when debouncing', () => {
+      const { result } = renderHook(() =>
+        useStorage<number>(TEST_KEY, { writeDebounceMs: 300, writeThrottleMs: 1000 })
+      )
+
+      for (let i = 1; i <= 5; i += 1) {
+        act(() => {
+          result.current.setValue(i)
+          jest.advanceTimersByTime(250)
+        })
+      }
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('4')
+    })
+
+    it('should read the delayed value in functional updates', () => {
+      const { result } = renderHook(() => useStorage<number>(TEST_KEY, { writeDebounceMs: 300 }))
+
+      act(() => {
+        result.current.setValue(1)
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+        result.current.setValue((prev) => (prev ?? 0) + 1)
+      })
+
+      expect(result.current.value).toBe(3)
+
+      act(() => {
+        jest.advanceTimersByTime(300)
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe('3')
+    })
+
+    it('should write the delayed value on flush', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { writeDebounceMs: 300 }))
+
+      act(() => {
+        result.current.setValue('draft')
+      })
+      act(() => {
+        result.current.flush()
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('draft'))
+    })
+
+    it('should write the delayed value when the page is hidden', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { writeDebounceMs: 300 }))
+
+      act(() => {
+        result.current.setValue('draft')
+      })
+
+      window.dispatchEvent(new Event('pagehide'))
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('draft'))
+    })
+
+    it('should write the delayed value on unmount', () => {
+      const { result, unmount } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { writeDebounceMs: 300 })
+      )
+
+      act(() => {
+        result.current.setValue('draft')
+      })
+
+      unmount()
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('draft'))
+    })
+
+    it('should not bring back a value removed by clear', () => {
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY, { writeDebounceMs: 300 }))
+
+      act(() => {
+        result.current.setValue('draft')
+      })
+      act(() => {
+        result.current.clear()
+      })
+      act(() => {
+        jest.advanceTimersByTime(300)
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should report a failed delayed write and restore the persisted value', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const data = new Map<string, string>([[TEST_KEY, JSON.stringify('saved')]])
+      const adapter: StorageAdapter = {
+        name: 'delayed-test',
+        get: (key) => data.get(key) ?? null,
+        set: () => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError')
+        },
+        remove: (key) => {
+          data.delete(key)
+        },
+      }
+
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: adapter, writeDebounceMs: 300 })
+      )
 
       act(() => {
-        result.current.setValue(true)
+        result.current.setValue('draft')
       })
 
-      // Boolean should be JSON stringified
-      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify(true))
-      expect(result.current.value).toBe(true)
+      expect(result.current.value).toBe('draft')
+
+      await act(async () => {
+        jest.advanceTimersByTime(300)
+      })
+
+      expect(result.current.value).toBe('saved')
+      expect(result.current.error?.type).toBe('quotaExceeded')
+
+      warnSpy.mockRestore()
     })
+  })
 
-    it('should handle manually set plain strings in localStorage', () => {
-      // Simulate manually setting a plain string (not JSON.stringify'd)
-      localStorage.setItem(TEST_KEY, 'manually-set-string')
+  describe('Same-Window Updates', () => {
+    it('should update other hooks with the same key synchronously', () => {
+      const { result: first } = renderHook(() => useStorage<string[]>('cart'))
+      const { result: second } = renderHook(() => useStorage<string[]>('cart'))
 
-      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+      act(() => {
+        first.current.setValue(['apple'])
+      })
 
-      // Should read the plain string correctly
-      expect(result.current.value).toBe('manually-set-string')
+      expect(second.current.value).toEqual(['apple'])
     })
 
-    it('should handle manually set JSON strings in localStorage', () => {
-      // Simulate manually setting a JSON string
-      localStorage.setItem(TEST_KEY, JSON.stringify('json-string'))
+    it('should propagate removals to other hooks with the same key', () => {
+      const { result: first } = renderHook(() => useStorage<string>('cart'))
+      const { result: second } = renderHook(() => useStorage<string>('cart'))
 
-      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+      act(() => {
+        first.current.setValue('item')
+      })
 
-      // Should parse JSON and return the string value
-      expect(result.current.value).toBe('json-string')
+      act(() => {
+        first.current.removeValue()
+      })
+
+      expect(second.current.value).toBeNull()
+      expect(second.current.hasValue).toBe(false)
+    })
+
+    it('should call onChange on hooks receiving an update', () => {
+      const onChange = jest.fn()
+      const { result: first } = renderHook(() => useStorage<number>('count'))
+      renderHook(() => useStorage<number>('count', { onChange }))
+
+      act(() => {
+        first.current.setValue(5)
+      })
+
+      expect(onChange).toHaveBeenCalledTimes(1)
+      expect(onChange).toHaveBeenCalledWith(5)
+    })
+
+    it('should not update hooks using a different storage type or key', () => {
+      const { result: local } = renderHook(() => useStorage<string>('shared'))
+      const { result: session } = renderHook(() =>
+        useStorage<string>('shared', { storageType: 'sessionStorage' })
+      )
+      const { result: other } = renderHook(() => useStorage<string>('other'))
+
+      act(() => {
+        local.current.setValue('local-value')
+      })
+
+      expect(session.current.value).toBeNull()
+      expect(other.current.value).toBeNull()
+    })
+
+    it('should reset hooks when storage is cleared', () => {
+      const { result: first } = renderHook(() => useStorage<string>('first'))
+      const { result: second } = renderHook(() => useStorage<string>('second'))
+
+      act(() => {
+        first.current.setValue('a')
+        second.current.setValue('b')
+      })
+
+      act(() => {
+        first.current.clearAll()
+      })
+
+      expect(first.current.value).toBeNull()
+      expect(second.current.value).toBeNull()
+    })
+
+    it('should stop receiving updates after unmount', () => {
+      const onChange = jest.fn()
+      const { result: first } = renderHook(() => useStorage<string>('cart'))
+      const { unmount } = renderHook(() => useStorage<string>('cart', { onChange }))
+
+      unmount()
+
+      act(() => {
+        first.current.setValue('after-unmount')
+      })
+
+      expect(onChange).not.toHaveBeenCalled()
     })
   })
 
-  describe('Cookie Expiration', () => {
-    it('should create session cookie when expires is 0', () => {
+  describe('External Store', () => {
+    it('should render the same value for every hook using a key in one commit', () => {
+      const { result } = renderHook(() => ({
+        first: useStorage<string>(TEST_KEY),
+        second: useStorage<string>(TEST_KEY),
+      }))
+
+      act(() => {
+        result.current.first.setValue('shared')
+      })
+
+      expect(result.current.first.value).toBe('shared')
+      expect(result.current.second.value).toBe('shared')
+    })
+
+    it('should keep the parsed value stable while the raw value is unchanged', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ items: [1, 2] }))
+
+      const { result, rerender } = renderHook(() => useStorage(TEST_KEY))
+      const firstValue = result.current.value
+
+      rerender()
+
+      expect(result.current.value).toBe(firstValue)
+    })
+
+    it('should not re-render other hooks when an equal value is written', () => {
+      let renders = 0
+      const { result: writer } = renderHook(() => useStorage<string>(TEST_KEY))
+      renderHook(() => {
+        renders += 1
+        return useStorage<string>(TEST_KEY)
+      })
+
+      act(() => {
+        writer.current.setValue('same')
+      })
+
+      const rendersAfterFirstWrite = renders
+
+      act(() => {
+        writer.current.setValue('same')
+      })
+
+      expect(renders).toBe(rendersAfterFirstWrite)
+    })
+
+    it('should render defaultValue on the server', () => {
+      localStorage.setItem(TEST_KEY, '"client-value"')
+
+      function Component() {
+        const { value } = useStorage<string>(TEST_KEY, { defaultValue: 'server-default' })
+        return React.createElement('span', null, value)
+      }
+
+      expect(renderToString(React.createElement(Component))).toBe('<span>server-default</span>')
+    })
+  })
+
+  describe('Cross-Tab Sync (BroadcastChannel)', () => {
+    // Minimal BroadcastChannel mock - every instance acts as a separate tab
+    class MockBroadcastChannel {
+      static instances: MockBroadcastChannel[] = []
+      onmessage: ((event: { data: unknown }) => void) | null = null
+      closed = false
+
+      constructor(public name: string) {
+        MockBroadcastChannel.instances.push(this)
+      }
+
+      postMessage(data: unknown) {
+        MockBroadcastChannel.instances
+          .filter((channel) => channel !== this && !channel.closed && channel.name === this.name)
+          .forEach((channel) => channel.onmessage?.({ data }))
+      }
+
+      close() {
+        this.closed = true
+        MockBroadcastChannel.instances = MockBroadcastChannel.instances.filter((c) => c !== this)
+      }
+    }
+
+    // Channel representing another tab
+    const openOtherTab = () => new MockBroadcastChannel('react-hooks-core:storage')
+
+    // Message sent by a sibling tab (opened from this one, so sharing its session)
+    const siblingMessage = (key: string, value: string | null) => ({
+      adapter: 'sessionStorage',
+      key,
+      value,
+      session: storageSyncChannel.getSessionId(),
+    })
+
+    beforeEach(() => {
+      MockBroadcastChannel.instances = []
+      ;(global as any).BroadcastChannel = MockBroadcastChannel
+    })
+
+    afterEach(() => {
+      delete (global as any).BroadcastChannel
+    })
+
+    it('should broadcast writes to other tabs when sync is enabled', () => {
+      const otherTab = openOtherTab()
+      const messages: unknown[] = []
+      otherTab.onmessage = (event) => messages.push(event.data)
+
       const { result } = renderHook(() =>
-        useStorage(TEST_KEY, {
-          storageType: 'cookie',
-          cookieOptions: { expires: 0, path: '/' },
-        })
+        useStorage<string>(TEST_KEY, { storageType: 'cookie', sync: true })
       )
 
       act(() => {
-        result.current.setValue('session-value')
+        result.current.setValue('en-US')
       })
 
-      // Cookie should be set without expires attribute (session cookie)
-      const cookie = document.cookie
-      expect(cookie).toContain(TEST_KEY)
-      expect(cookie).not.toContain('expires=')
-      expect(result.current.value).toBe('session-value')
+      expect(messages).toEqual([
+        { adapter: 'cookie', key: TEST_KEY, value: '"en-US"', session: expect.any(String) },
+      ])
     })
 
-    it('should create cookie with default expiration (365 days) when undefined)', () => {
+    it('should broadcast delayed writes once they are written', () => {
+      jest.useFakeTimers()
+      const otherTab = openOtherTab()
+      const messages: unknown[] = []
+      otherTab.onmessage = (event) => messages.push(event.data)
+
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, {
-          storageType: 'cookie',
-          cookieOptions: { path: '/' },
-        })
+        useStorage<string>(TEST_KEY, { sync: true, writeDebounceMs: 300 })
       )
 
       act(() => {
-        result.current.setValue('default-expires')
+        result.current.setValue('a')
+        result.current.setValue('ab')
       })
 
-      // Cookie should be set (expires attribute is set but not visible in document.cookie)
-      const cookie = document.cookie
-      expect(cookie).toContain(TEST_KEY)
-      expect(result.current.value).toBe('default-expires')
+      expect(messages).toEqual([])
 
-      // Verify cookie exists by reading it back
-      const cookieValue = document.cookie
-        .split(';')
-        .find((c) => c.trim().startsWith(`${TEST_KEY}=`))
-      expect(cookieValue).toBeTruthy()
+      act(() => {
+        jest.advanceTimersByTime(300)
+      })
+
+      expect(messages).toEqual([
+        { adapter: 'localStorage', key: TEST_KEY, value: '"ab"', session: expect.any(String) },
+      ])
+      jest.useRealTimers()
     })
 
-    it('should create cookie with custom expiration days', () => {
+    it('should not broadcast when sync is disabled', () => {
+      const otherTab = openOtherTab()
+      const onMessage = jest.fn()
+      otherTab.onmessage = onMessage
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('value')
+      })
+
+      expect(onMessage).not.toHaveBeenCalled()
+    })
+
+    it('should receive cookie changes from other tabs', () => {
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, {
-          storageType: 'cookie',
-          cookieOptions: { expires: 7, path: '/' },
+        useStorage<string>(TEST_KEY, { storageType: 'cookie', sync: true })
+      )
+
+      act(() => {
+        document.cookie = `${TEST_KEY}=dark;path=/`
+        openOtherTab().postMessage({ adapter: 'cookie', key: TEST_KEY, value: 'dark' })
+      })
+
+      expect(result.current.value).toBe('dark')
+    })
+
+    it('should mirror sessionStorage values from sibling tabs into this tab', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', sync: true })
+      )
+
+      act(() => {
+        openOtherTab().postMessage(siblingMessage(TEST_KEY, 'step-2'))
+      })
+
+      expect(result.current.value).toBe('step-2')
+      expect(sessionStorage.getItem(TEST_KEY)).toBe('step-2')
+
+      act(() => {
+        openOtherTab().postMessage(siblingMessage(TEST_KEY, null))
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(sessionStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should ignore sessionStorage values from unrelated tabs', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', sync: true })
+      )
+
+      act(() => {
+        openOtherTab().postMessage({
+          adapter: 'sessionStorage',
+          key: TEST_KEY,
+          value: 'other-session',
+          session: 'unrelated-session',
         })
+        openOtherTab().postMessage({
+          adapter: 'sessionStorage',
+          key: TEST_KEY,
+          value: 'unknown-session',
+          session: null,
+        })
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(sessionStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should keep the session id when sessionStorage is cleared', () => {
+      const sessionId = storageSyncChannel.getSessionId()
+      sessionStorage.clear()
+
+      expect(storageSyncChannel.getSessionId()).toBe(sessionId)
+    })
+
+    it('should update non-synced hooks in the receiving tab', () => {
+      renderHook(() => useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', sync: true }))
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage' })
       )
 
       act(() => {
-        result.current.setValue('custom-expires')
+        openOtherTab().postMessage(siblingMessage(TEST_KEY, 'mirrored'))
       })
 
-      // Cookie should be set (expires attribute is set but not visible in document.cookie)
-      const cookie = document.cookie
-      expect(cookie).toContain(TEST_KEY)
-      expect(result.current.value).toBe('custom-expires')
+      expect(result.current.value).toBe('mirrored')
+    })
 
-      // Verify cookie exists by reading it back
-      const cookieValue = document.cookie
-        .split(';')
-        .find((c) => c.trim().startsWith(`${TEST_KEY}=`))
-      expect(cookieValue).toBeTruthy()
+    it('should ignore messages for other keys or storage types', () => {
+      const { result } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', sync: true })
+      )
+
+      act(() => {
+        openOtherTab().postMessage({ adapter: 'cookie', key: TEST_KEY, value: 'cookie' })
+        openOtherTab().postMessage(siblingMessage('other', 'other'))
+      })
+
+      expect(result.current.value).toBeNull()
+    })
+
+    it('should close the channel when the last synced hook unmounts', () => {
+      const { unmount } = renderHook(() =>
+        useStorage<string>(TEST_KEY, { storageType: 'cookie', sync: true })
+      )
+
+      expect(MockBroadcastChannel.instances).toHaveLength(1)
+
+      unmount()
+
+      expect(MockBroadcastChannel.instances).toHaveLength(0)
     })
   })
 
   describe('Polling and Change Detection', () => {
+    // Polling is an opt-in fallback for writes made outside useStorage
     beforeEach(() => {
       jest.useFakeTimers()
     })
@@ -779,7 +3439,7 @@ describe('useStorage', () => {
 
     it('should detect localStorage changes via polling', async () => {
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, { storageType: 'localStorage' })
+        useStorage<string>(TEST_KEY, { storageType: 'localStorage', poll: true })
       )
 
       act(() => {
@@ -789,7 +3449,7 @@ describe('useStorage', () => {
       expect(result.current.value).toBe('initial')
 
       // Manually change localStorage (simulating external change)
-      // Use plain string since strings are stored as-is
+      // Plain (non-JSON) strings written by other code are read as-is
       act(() => {
         localStorage.setItem(TEST_KEY, 'changed-externally')
       })
@@ -806,7 +3466,7 @@ describe('useStorage', () => {
 
     it('should detect sessionStorage changes via polling', async () => {
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage' })
+        useStorage<string>(TEST_KEY, { storageType: 'sessionStorage', poll: true })
       )
 
       act(() => {
@@ -816,7 +3476,7 @@ describe('useStorage', () => {
       expect(result.current.value).toBe('initial')
 
       // Manually change sessionStorage (simulating external change)
-      // Use plain string since strings are stored as-is
+      // Plain (non-JSON) strings written by other code are read as-is
       act(() => {
         sessionStorage.setItem(TEST_KEY, 'changed-externally')
       })
@@ -833,7 +3493,11 @@ describe('useStorage', () => {
 
     it('should detect cookie changes via polling', async () => {
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, { storageType: 'cookie', cookieOptions: { path: '/' } })
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { path: '/' },
+          poll: true,
+        })
       )
 
       act(() => {
@@ -843,7 +3507,7 @@ describe('useStorage', () => {
       expect(result.current.value).toBe('initial')
 
       // Manually change cookie (simulating external change)
-      // Use plain string since strings are stored as-is
+      // Plain (non-JSON) strings written by other code are read as-is
       act(() => {
         document.cookie = `${TEST_KEY}=${encodeURIComponent('changed-externally')};path=/`
       })
@@ -886,13 +3550,13 @@ describe('useStorage', () => {
 
       // Create multiple hooks
       const { result: result1 } = renderHook(() =>
-        useStorage('key1', { storageType: 'localStorage' })
+        useStorage('key1', { storageType: 'localStorage', poll: true })
       )
       const { result: result2 } = renderHook(() =>
-        useStorage('key2', { storageType: 'localStorage' })
+        useStorage('key2', { storageType: 'localStorage', poll: true })
       )
       const { result: result3 } = renderHook(() =>
-        useStorage('key3', { storageType: 'localStorage' })
+        useStorage('key3', { storageType: 'localStorage', poll: true })
       )
 
       // Should only create one interval (shared polling manager)
@@ -919,8 +3583,12 @@ describe('useStorage', () => {
       }
       const clearIntervalSpy = jest.spyOn(global, 'clearInterval')
 
-      const hook1 = renderHook(() => useStorage<string>('key1', { storageType: 'localStorage' }))
-      const hook2 = renderHook(() => useStorage<string>('key2', { storageType: 'localStorage' }))
+      const hook1 = renderHook(() =>
+        useStorage<string>('key1', { storageType: 'localStorage', poll: true })
+      )
+      const hook2 = renderHook(() =>
+        useStorage<string>('key2', { storageType: 'localStorage', poll: true })
+      )
 
       // Unmount both hooks
       act(() => {
@@ -938,7 +3606,7 @@ describe('useStorage', () => {
     it('should not trigger unnecessary updates when value unchanged', async () => {
       const onChange = jest.fn()
       const { result } = renderHook(() =>
-        useStorage(TEST_KEY, { storageType: 'localStorage', onChange })
+        useStorage(TEST_KEY, { storageType: 'localStorage', poll: true, onChange })
       )
 
       act(() => {
@@ -956,9 +3624,33 @@ describe('useStorage', () => {
       expect(onChange).toHaveBeenCalledTimes(1)
     })
 
+    it('should not poll by default', () => {
+      const setIntervalSpy = jest.spyOn(global, 'setInterval')
+
+      const { result } = renderHook(() => useStorage<string>(TEST_KEY))
+
+      expect(setIntervalSpy).not.toHaveBeenCalled()
+
+      act(() => {
+        localStorage.setItem(TEST_KEY, 'changed-externally')
+      })
+
+      act(() => {
+        jest.advanceTimersByTime(2000)
+      })
+
+      expect(result.current.value).toBeNull()
+
+      setIntervalSpy.mockRestore()
+    })
+
     it('should handle polling for cookies with plain strings', async () => {
       const { result } = renderHook(() =>
-        useStorage<string>(TEST_KEY, { storageType: 'cookie', cookieOptions: { path: '/' } })
+        useStorage<string>(TEST_KEY, {
+          storageType: 'cookie',
+          cookieOptions: { path: '/' },
+          poll: true,
+        })
       )
 
       act(() => {
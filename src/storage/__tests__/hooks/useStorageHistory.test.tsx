@@ -0,0 +1,312 @@
+import { renderHook, act } from '@testing-library/react'
+import { useStorageHistory } from '../../hooks/useStorageHistory'
+import { useStorageKeys } from '../../hooks/useStorageKeys'
+import type { StorageAdapter } from '../../interface'
+
+describe('useStorageHistory', () => {
+  const TEST_KEY = 'document'
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('Undo and Redo', () => {
+    it('should start without history', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY, { defaultValue: '' }))
+
+      expect(result.current.value).toBe('')
+      expect(result.current.canUndo).toBe(false)
+      expect(result.current.canRedo).toBe(false)
+    })
+
+    it('should undo and redo values', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+      })
+      act(() => {
+        result.current.setValue('b')
+      })
+
+      expect(result.current.value).toBe('b')
+      expect(result.current.canUndo).toBe(true)
+
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBe('a')
+      expect(result.current.canRedo).toBe(true)
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('a'))
+
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(result.current.canUndo).toBe(false)
+
+      act(() => {
+        result.current.redo()
+        result.current.redo()
+      })
+
+      expect(result.current.value).toBe('b')
+      expect(result.current.canRedo).toBe(false)
+    })
+
+    it('should do nothing when there is nothing to undo or redo', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+      })
+
+      act(() => {
+        result.current.redo()
+      })
+
+      expect(result.current.value).toBe('a')
+      expect(result.current.canUndo).toBe(true)
+    })
+
+    it('should forget undone values on a new value', () => {
+      const { result } = renderHook(() => useStorageHistory<number>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue(1)
+        result.current.setValue(2)
+      })
+      act(() => {
+        result.current.undo()
+      })
+      act(() => {
+        result.current.setValue((prev) => (prev ?? 0) + 10)
+      })
+
+      expect(result.current.value).toBe(11)
+      expect(result.current.canRedo).toBe(false)
+
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBe(1)
+    })
+
+    it('should not record values that did not change', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+        result.current.setValue('a')
+      })
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(result.current.canUndo).toBe(false)
+    })
+
+    it('should record removals', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+      })
+      act(() => {
+        result.current.removeValue()
+      })
+
+      expect(result.current.value).toBeNull()
+
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBe('a')
+    })
+  })
+
+  describe('Persistence', () => {
+    it('should restore history after a reload', () => {
+      const { result, unmount } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+        result.current.setValue('b')
+      })
+
+      unmount()
+
+      const { result: reloaded } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      expect(reloaded.current.value).toBe('b')
+      expect(reloaded.current.canUndo).toBe(true)
+
+      act(() => {
+        reloaded.current.undo()
+      })
+
+      expect(reloaded.current.value).toBe('a')
+    })
+
+    it('should keep history in the same storage type', () => {
+      const { result } = renderHook(() =>
+        useStorageHistory<string>(TEST_KEY, { storageType: 'sessionStorage', namespace: 'editor' })
+      )
+
+      act(() => {
+        result.current.setValue('a')
+      })
+
+      expect(sessionStorage.getItem('editor:document')).toBe(JSON.stringify('a'))
+      expect(sessionStorage.getItem('editor:__rhc_history:document')).not.toBeNull()
+      expect(localStorage.length).toBe(0)
+    })
+
+    it('should round-trip rich values in history', () => {
+      const { result } = renderHook(() =>
+        useStorageHistory<Date>(TEST_KEY, {
+          serializer: (value) => value.toISOString(),
+          deserializer: (rawValue) => new Date(rawValue),
+        })
+      )
+
+      act(() => {
+        result.current.setValue(new Date('2026-01-01T00:00:00Z'))
+        result.current.setValue(new Date('2026-02-01T00:00:00Z'))
+      })
+      act(() => {
+        result.current.undo()
+      })
+
+      expect(result.current.value).toEqual(new Date('2026-01-01T00:00:00Z'))
+    })
+
+    it('should hide history keys from useStorageKeys', () => {
+      const { result } = renderHook(() => ({
+        history: useStorageHistory<string>('draft:1', { namespace: 'app' }),
+        keys: useStorageKeys({ namespace: 'app' }),
+      }))
+
+      act(() => {
+        result.current.history.setValue('a')
+      })
+
+      expect(result.current.keys.keys).toEqual(['draft:1'])
+    })
+  })
+
+  describe('Options', () => {
+    it('should keep at most maxDepth past values', () => {
+      const { result } = renderHook(() => useStorageHistory<number>(TEST_KEY, { maxDepth: 2 }))
+
+      act(() => {
+        result.current.setValue(1)
+        result.current.setValue(2)
+        result.current.setValue(3)
+        result.current.setValue(4)
+      })
+
+      act(() => {
+        result.current.undo()
+        result.current.undo()
+        result.current.undo()
+      })
+
+      expect(result.current.value).toBe(2)
+      expect(result.current.canUndo).toBe(false)
+    })
+
+    it('should clear the history but keep the value', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+        result.current.setValue('b')
+      })
+      act(() => {
+        result.current.clearHistory()
+      })
+
+      expect(result.current.value).toBe('b')
+      expect(result.current.canUndo).toBe(false)
+      expect(localStorage.getItem(`__rhc_history:${TEST_KEY}`)).toBeNull()
+    })
+
+    it('should clear the value and its history', () => {
+      const { result } = renderHook(() => useStorageHistory<string>(TEST_KEY))
+
+      act(() => {
+        result.current.setValue('a')
+      })
+      act(() => {
+        result.current.clear()
+      })
+
+      expect(result.current.value).toBeNull()
+      expect(result.current.canUndo).toBe(false)
+      expect(localStorage.length).toBe(0)
+    })
+
+    it('should keep value and history unchanged when a write fails', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const data = new Map<string, string>()
+      let full = false
+      const adapter: StorageAdapter = {
+        name: 'history-test',
+        get: (key) => data.get(key) ?? null,
+        set: (key, value) => {
+          if (full && key.startsWith('__rhc_history:')) {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError')
+          }
+          data.set(key, value)
+        },
+        remove: (key) => {
+          data.delete(key)
+        },
+      }
+
+      const { result } = renderHook(() =>
+        useStorageHistory<string>(TEST_KEY, { storageType: adapter })
+      )
+
+      act(() => {
+        result.current.setValue('a')
+      })
+
+      full = true
+      act(() => {
+        result.current.setValue('b')
+      })
+
+      expect(result.current.value).toBe('a')
+      expect(data.get(TEST_KEY)).toBe(JSON.stringify('a'))
+      expect(result.current.error?.type).toBe('quotaExceeded')
+
+      warnSpy.mockRestore()
+    })
+
+    it('should not accept delayed write options', () => {
+      const { result } = renderHook(() =>
+        // @ts-expect-error - values and history are written together, never delayed
+        useStorageHistory<string>(TEST_KEY, { writeDebounceMs: 300 })
+      )
+
+      act(() => {
+        result.current.setValue('a')
+      })
+
+      expect(localStorage.getItem(TEST_KEY)).toBe(JSON.stringify('a'))
+    })
+  })
+})
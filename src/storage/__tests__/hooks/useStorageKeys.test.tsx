@@ -0,0 +1,393 @@
+import React from 'react'
+import 'fake-indexeddb/auto'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { renderToString } from 'react-dom/server'
+import { useStorage } from '../../hooks/useStorage'
+import { useStorageKeys } from '../../hooks/useStorageKeys'
+import { StorageProvider } from '../../context'
+import { idbClear, idbSet } from '../../utils'
+import type { StorageAdapter } from '../../interface'
+
+describe('useStorageKeys', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('Listing', () => {
+    it('should list matching keys sorted alphabetically', () => {
+      localStorage.setItem('draft:b', '"b"')
+      localStorage.setItem('draft:a', '"a"')
+      localStorage.setItem('settings', '{}')
+
+      const { result } = renderHook(() => useStorageKeys({ prefix: 'draft:' }))
+
+      expect(result.current.keys).toEqual(['draft:a', 'draft:b'])
+      expect(result.current.loading).toBe(false)
+    })
+
+    it('should list all keys without a prefix, except internal keys', () => {
+      localStorage.setItem('theme', '"dark"')
+      localStorage.setItem('__rhc_lru:cache', '{}')
+
+      const { result } = renderHook(() => useStorageKeys())
+
+      expect(result.current.keys).toEqual(['theme'])
+    })
+
+    it('should list keys of the given storage type', () => {
+      localStorage.setItem('draft:local', '"a"')
+      sessionStorage.setItem('draft:session', '"b"')
+
+      const { result } = renderHook(() =>
+        useStorageKeys({ prefix: 'draft:', storageType: 'sessionStorage' })
+      )
+
+      expect(result.current.keys).toEqual(['draft:session'])
+    })
+
+    it('should keep the same array while the keys are unchanged', () => {
+      localStorage.setItem('draft:a', '"a"')
+
+      const { result, rerender } = renderHook(() => useStorageKeys({ prefix: 'draft:' }))
+      const firstKeys = result.current.keys
+
+      rerender()
+
+      expect(result.current.keys).toBe(firstKeys)
+    })
+  })
+
+  describe('Updates', () => {
+    it('should update when useStorage writes and removes a key', () => {
+      const { result } = renderHook(() => ({
+        keys: useStorageKeys({ prefix: 'draft:' }),
+        draft: useStorage<string>('draft:1'),
+      }))
+
+      expect(result.current.keys.keys).toEqual([])
+
+      act(() => {
+        result.current.draft.setValue('text')
+      })
+
+      expect(result.current.keys.keys).toEqual(['draft:1'])
+
+      act(() => {
+        result.current.draft.removeValue()
+      })
+
+      expect(result.current.keys.keys).toEqual([])
+    })
+
+    it('should update when a hook in another component writes a key', () => {
+      const { result: keys } = renderHook(() => useStorageKeys({ prefix: 'draft:' }))
+      const { result: draft } = renderHook(() => useStorage<string>('draft:2'))
+
+      act(() => {
+        draft.current.setValue('text')
+      })
+
+      expect(keys.current.keys).toEqual(['draft:2'])
+    })
+
+    it('should ignore keys that do not match the prefix', () => {
+      const { result } = renderHook(() => ({
+        keys: useStorageKeys({ prefix: 'draft:' }),
+        other: useStorage<string>('settings'),
+      }))
+      const firstKeys = result.current.keys.keys
+
+      act(() => {
+        result.current.other.setValue('value')
+      })
+
+      expect(result.current.keys.keys).toBe(firstKeys)
+    })
+
+    it('should not list keys again when another storage type changes', async () => {
+      const keys = jest.fn(() => Promise.resolve(['draft:a']))
+      const adapter: StorageAdapter = {
+        name: 'keys-async-test',
+        async: true,
+        get: () => Promise.resolve(null),
+        set: () => Promise.resolve(),
+        remove: () => Promise.resolve(),
+        keys,
+      }
+
+      const { result } = renderHook(() => ({
+        keys: useStorageKeys({ storageType: adapter }),
+        other: useStorage<string>('draft:b'),
+      }))
+
+      await waitFor(() => {
+        expect(result.current.keys.keys).toEqual(['draft:a'])
+      })
+
+      await act(async () => {
+        result.current.other.setValue('text')
+      })
+
+      expect(keys).toHaveBeenCalledTimes(1)
+    })
+
+    it('should update on storage events from other tabs', () => {
+      const { result } = renderHook(() => useStorageKeys({ prefix: 'draft:' }))
+
+      act(() => {
+        localStorage.setItem('draft:remote', '"remote"')
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: 'draft:remote',
+            newValue: '"remote"',
+            storageArea: localStorage,
+          })
+        )
+      })
+
+      expect(result.current.keys).toEqual(['draft:remote'])
+
+      act(() => {
+        localStorage.clear()
+        window.dispatchEvent(new StorageEvent('storage', { key: null, storageArea: localStorage }))
+      })
+
+      expect(result.current.keys).toEqual([])
+    })
+
+    it('should update when storage is cleared', () => {
+      localStorage.setItem('draft:a', '"a"')
+
+      const { result } = renderHook(() => ({
+        keys: useStorageKeys({ prefix: 'draft:' }),
+        draft: useStorage<string>('draft:a'),
+      }))
+
+      expect(result.current.keys.keys).toEqual(['draft:a'])
+
+      act(() => {
+        result.current.draft.clearAll()
+      })
+
+      expect(result.current.keys.keys).toEqual([])
+    })
+  })
+
+  describe('Errors', () => {
+    it('should report listing errors to onError and the logger', () => {
+      const onError = jest.fn()
+      const logger = { warn: jest.fn() }
+      const adapter: StorageAdapter = {
+        name: 'keys-test',
+        get: () => null,
+        set: () => {},
+        remove: () => {},
+        keys: () => {
+          throw new Error('denied')
+        },
+      }
+
+      const { result, rerender } = renderHook(() =>
+        useStorageKeys({ prefix: 'draft:', storageType: adapter, onError, logger })
+      )
+      rerender()
+
+      expect(result.current.keys).toEqual([])
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith('Error listing keys-test keys:', new Error('denied'))
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'readFailed', key: 'draft:' })
+      )
+    })
+
+    it('should let onError update state without updating during render', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation()
+      const adapter: StorageAdapter = {
+        name: 'keys-test',
+        get: () => null,
+        set: () => {},
+        remove: () => {},
+        keys: () => {
+          throw new Error('denied')
+        },
+      }
+      let renders = 0
+
+      const { result } = renderHook(() => {
+        renders += 1
+        const [errors, setErrors] = React.useState(0)
+        useStorageKeys({
+          storageType: adapter,
+          onError: () => setErrors((count) => count + 1),
+          logger: { warn: () => {} },
+        })
+        return errors
+      })
+
+      expect(result.current).toBe(1)
+      expect(renders).toBeLessThan(5)
+      expect(errorSpy).not.toHaveBeenCalled()
+
+      errorSpy.mockRestore()
+    })
+
+    it('should report a listing error again after listing succeeded', () => {
+      const onError = jest.fn()
+      let failing = true
+      const adapter: StorageAdapter = {
+        name: 'keys-test',
+        get: () => null,
+        set: () => {},
+        remove: () => {},
+        keys: () => {
+          if (failing) {
+            throw new Error('denied')
+          }
+          return ['draft:a']
+        },
+      }
+
+      const { result, rerender } = renderHook(() =>
+        useStorageKeys({ storageType: adapter, onError, logger: { warn: () => {} } })
+      )
+
+      failing = false
+      rerender()
+      expect(result.current.keys).toEqual(['draft:a'])
+
+      failing = true
+      rerender()
+      expect(onError).toHaveBeenCalledTimes(2)
+    })
+
+    it('should use the StorageProvider logger', async () => {
+      const logger = { warn: jest.fn() }
+      const adapter: StorageAdapter = {
+        name: 'keys-test',
+        async: true,
+        get: () => Promise.resolve(null),
+        set: () => Promise.resolve(),
+        remove: () => Promise.resolve(),
+        keys: () => Promise.reject(new Error('denied')),
+      }
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StorageProvider logger={logger}>{children}</StorageProvider>
+      )
+
+      renderHook(() => useStorageKeys({ storageType: adapter }), { wrapper })
+
+      await waitFor(() => {
+        expect(logger.warn).toHaveBeenCalledWith(
+          'Error listing keys-test keys:',
+          new Error('denied')
+        )
+      })
+    })
+  })
+
+  describe('Namespaces', () => {
+    it('should list keys of the namespace without the namespace prefix', () => {
+      localStorage.setItem('app:draft:a', '"a"')
+      localStorage.setItem('other:draft:b', '"b"')
+      localStorage.setItem('draft:c', '"c"')
+
+      const { result } = renderHook(() => useStorageKeys({ prefix: 'draft:', namespace: 'app' }))
+
+      expect(result.current.keys).toEqual(['draft:a'])
+    })
+
+    it('should use the StorageProvider namespace and storage type', () => {
+      sessionStorage.setItem('app:draft:a', '"a"')
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StorageProvider namespace="app" storageType="sessionStorage">
+          {children}
+        </StorageProvider>
+      )
+
+      const { result } = renderHook(
+        () => ({
+          keys: useStorageKeys({ prefix: 'draft:' }),
+          draft: useStorage<string>('draft:b'),
+        }),
+        { wrapper }
+      )
+
+      expect(result.current.keys.keys).toEqual(['draft:a'])
+
+      act(() => {
+        result.current.draft.setValue('text')
+      })
+
+      // Listed keys can be passed to useStorage as-is
+      expect(result.current.keys.keys).toEqual(['draft:a', 'draft:b'])
+      expect(sessionStorage.getItem('app:draft:b')).not.toBeNull()
+    })
+  })
+
+  describe('Asynchronous Storage', () => {
+    beforeEach(async () => {
+      await idbClear()
+    })
+
+    it('should load keys from IndexedDB', async () => {
+      await idbSet('draft:a', '"a"')
+
+      const { result } = renderHook(() =>
+        useStorageKeys({ prefix: 'draft:', storageType: 'indexedDB' })
+      )
+
+      expect(result.current.loading).toBe(true)
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false)
+      })
+
+      expect(result.current.keys).toEqual(['draft:a'])
+    })
+
+    it('should update when useStorage writes to IndexedDB', async () => {
+      const { result } = renderHook(() => ({
+        keys: useStorageKeys({ prefix: 'draft:', storageType: 'indexedDB' }),
+        draft: useStorage<string>('draft:1', { storageType: 'indexedDB' }),
+      }))
+
+      await waitFor(() => {
+        expect(result.current.keys.loading).toBe(false)
+      })
+
+      act(() => {
+        result.current.draft.setValue('text')
+      })
+
+      await waitFor(() => {
+        expect(result.current.keys.keys).toEqual(['draft:1'])
+      })
+    })
+  })
+
+  describe('SSR Compatibility', () => {
+    function CookieKeys() {
+      const { keys } = useStorageKeys({ prefix: 'pref:', storageType: 'cookie' })
+      return <span>{keys.join(',')}</span>
+    }
+
+    it('should list request cookies on the server', () => {
+      const html = renderToString(
+        <StorageProvider cookies="pref:theme=1; pref:locale=2; session=abc">
+          <CookieKeys />
+        </StorageProvider>
+      )
+
+      expect(html).toBe('<span>pref:locale,pref:theme</span>')
+    })
+  })
+})
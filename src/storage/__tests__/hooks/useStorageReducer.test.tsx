@@ -0,0 +1,175 @@
+import { renderHook, act } from '@testing-library/react'
+import { useStorageReducer } from '../../hooks/useStorageReducer'
+
+type CounterState = { count: number }
+type CounterAction = { type: 'increment' } | { type: 'add'; amount: number }
+
+const counterReducer = (state: CounterState, action: CounterAction): CounterState => {
+  switch (action.type) {
+    case 'increment':
+      return { count: state.count + 1 }
+    case 'add':
+      return { count: state.count + action.amount }
+    default:
+      return state
+  }
+}
+
+describe('useStorageReducer', () => {
+  const TEST_KEY = 'counter'
+
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('Initialization', () => {
+    it('should start with the initial state when nothing is stored', () => {
+      const { result } = renderHook(() => useStorageReducer(TEST_KEY, counterReducer, { count: 0 }))
+
+      expect(result.current.state).toEqual({ count: 0 })
+      expect(result.current.loading).toBe(false)
+      expect(result.current.error).toBeNull()
+    })
+
+    it('should rehydrate the stored state on mount', () => {
+      localStorage.setItem(TEST_KEY, JSON.stringify({ count: 5 }))
+
+      const { result } = renderHook(() => useStorageReducer(TEST_KEY, counterReducer, { count: 0 }))
+
+      expect(result.current.state).toEqual({ count: 5 })
+    })
+  })
+
+  describe('Dispatch', () => {
+    it('should persist every dispatched state', () => {
+      const { result } = renderHook(() => useStorageReducer(TEST_KEY, counterReducer, { count: 0 }))
+
+      act(() => {
+        result.current.dispatch({ type: 'increment' })
+        result.current.dispatch({ type: 'add', amount: 10 })
+      })
+
+      expect(result.current.state).toEqual({ count: 11 })
+      expect(JSON.parse(localStorage.getItem(TEST_KEY) ?? 'null')).toEqual({ count: 11 })
+    })
+
+    it('should apply actions from several components to the latest state', () => {
+      const { result: first } = renderHook(() =>
+        useStorageReducer(TEST_KEY, counterReducer, { count: 0 })
+      )
+      const { result: second } = renderHook(() =>
+        useStorageReducer(TEST_KEY, counterReducer, { count: 0 })
+      )
+
+      act(() => {
+        first.current.dispatch({ type: 'increment' })
+        second.current.dispatch({ type: 'increment' })
+      })
+
+      expect(first.current.state).toEqual({ count: 2 })
+      expect(second.current.state).toEqual({ count: 2 })
+    })
+
+    it('should use the latest reducer', () => {
+      const { result, rerender } = renderHook(
+        ({ step }) =>
+          useStorageReducer(TEST_KEY, (state: CounterState) => ({ count: state.count + step }), {
+            count: 0,
+          }),
+        { initialProps: { step: 1 } }
+      )
+
+      rerender({ step: 5 })
+
+      act(() => {
+        result.current.dispatch(undefined)
+      })
+
+      expect(result.current.state).toEqual({ count: 5 })
+    })
+
+    it('should go back to the initial state on reset', () => {
+      const { result } = renderHook(() => useStorageReducer(TEST_KEY, counterReducer, { count: 0 }))
+
+      act(() => {
+        result.current.dispatch({ type: 'increment' })
+      })
+
+      act(() => {
+        result.current.reset()
+      })
+
+      expect(result.current.state).toEqual({ count: 0 })
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+  })
+
+  describe('Options', () => {
+    it('should use the given storage type and namespace', () => {
+      const { result } = renderHook(() =>
+        useStorageReducer(
+          TEST_KEY,
+          counterReducer,
+          { count: 0 },
+          { storageType: 'sessionStorage', namespace: 'wizard' }
+        )
+      )
+
+      act(() => {
+        result.current.dispatch({ type: 'increment' })
+      })
+
+      expect(JSON.parse(sessionStorage.getItem('wizard:counter') ?? 'null')).toEqual({ count: 1 })
+      expect(localStorage.getItem(TEST_KEY)).toBeNull()
+    })
+
+    it('should fall back to the initial state for invalid stored values', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      localStorage.setItem(TEST_KEY, JSON.stringify({ total: 1 }))
+
+      const { result } = renderHook(() =>
+        useStorageReducer(
+          TEST_KEY,
+          counterReducer,
+          { count: 0 },
+          {
+            validate: (value): value is CounterState =>
+              typeof (value as CounterState).count === 'number',
+          }
+        )
+      )
+
+      expect(result.current.state).toEqual({ count: 0 })
+
+      warnSpy.mockRestore()
+    })
+
+    it('should rehydrate on changes from other tabs when sync is enabled', () => {
+      const { result } = renderHook(() =>
+        useStorageReducer(TEST_KEY, counterReducer, { count: 0 }, { sync: true })
+      )
+
+      act(() => {
+        const newValue = JSON.stringify({ count: 7 })
+        localStorage.setItem(TEST_KEY, newValue)
+        window.dispatchEvent(
+          new StorageEvent('storage', { key: TEST_KEY, newValue, storageArea: localStorage })
+        )
+      })
+
+      expect(result.current.state).toEqual({ count: 7 })
+
+      act(() => {
+        result.current.dispatch({ type: 'increment' })
+      })
+
+      expect(result.current.state).toEqual({ count: 8 })
+    })
+  })
+})
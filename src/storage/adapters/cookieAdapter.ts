@@ -0,0 +1,41 @@
+import type { IStorageCookieOptions, IStorageLogger, StorageAdapter } from '../interface'
+import {
+  getCookie,
+  getCookieNames,
+  setCookie,
+  removeCookie,
+  validateCookieOptions,
+} from '../utils/cookies'
+
+/**
+ * Create a cookie adapter with the given cookie options
+ * Cookies cannot be cleared all at once, so the adapter has no clear method
+ * Invalid option combinations are reported once here to the logger, writes with them fail
+ */
+export function createCookieAdapter(
+  options?: IStorageCookieOptions,
+  logger: IStorageLogger = console
+): StorageAdapter {
+  validateCookieOptions(options).forEach((problem) => {
+    logger.warn(`Invalid cookie options: ${problem}`)
+  })
+
+  if (options?.httpOnly) {
+    logger.warn(
+      'httpOnly cookies are not visible to JavaScript: values can only be read from StorageProvider cookies during server rendering and cannot be written in the browser'
+    )
+  }
+
+  return {
+    name: 'cookie',
+    get: (key) => getCookie(key),
+    set: (key, value) => setCookie(key, value, options),
+    remove: (key) => removeCookie(key, options),
+    keys: () => getCookieNames(),
+  }
+}
+
+/**
+ * Built-in cookie adapter with default cookie options
+ */
+export const cookieAdapter = createCookieAdapter()
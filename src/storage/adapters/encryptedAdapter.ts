@@ -0,0 +1,117 @@
+import type { IStorageEncryptionOptions, StorageAdapter } from '../interface'
+import {
+  decryptString,
+  deriveEncryptionKey,
+  encryptString,
+  isEncryptedString,
+  isWebCryptoAvailable,
+} from '../utils/storageCrypto'
+
+/**
+ * Wrap an adapter so values are encrypted at rest with AES-GCM
+ * Reads are asynchronous, and writes are queued so they land in call order
+ * Values that aren't encrypted (e.g. written before encryption was enabled) are read as-is
+ * The adapter is named `${adapter.name}:encrypted`, followed by `options.id` when given
+ *
+ * @param {StorageAdapter} adapter - Adapter holding the encrypted values
+ * @param {IStorageEncryptionOptions} options - Key or passphrase to encrypt with
+ * @returns {StorageAdapter} Encrypting adapter
+ *
+ * @example
+ * ```ts
+ * const secureStorage = createEncryptedAdapter(localStorageAdapter, { passphrase: userSecret })
+ * const { value } = useStorage('profile', { storageType: secureStorage })
+ * ```
+ */
+export function createEncryptedAdapter(
+  adapter: StorageAdapter,
+  options: IStorageEncryptionOptions
+): StorageAdapter {
+  let keyPromise: Promise<CryptoKey> | null = null
+  let writeQueue: Promise<void> = Promise.resolve()
+  const {
+    subscribe: baseSubscribe,
+    subscribeKeys: baseSubscribeKeys,
+    keys: baseKeys,
+    clear: baseClear,
+  } = adapter
+
+  // Derive the key lazily and only once
+  const getKey = (): Promise<CryptoKey> => {
+    if (keyPromise === null) {
+      if (!isWebCryptoAvailable()) {
+        return Promise.reject(new Error('Web Crypto (crypto.subtle) is not available'))
+      }
+
+      if (options.key) {
+        keyPromise = Promise.resolve(options.key)
+      } else if (options.passphrase !== undefined) {
+        keyPromise = deriveEncryptionKey(options.passphrase, options.salt, options.iterations)
+      } else {
+        return Promise.reject(new Error('Encryption requires a key or a passphrase'))
+      }
+
+      // Allow retrying if derivation failed
+      keyPromise.catch(() => {
+        keyPromise = null
+      })
+    }
+
+    return keyPromise
+  }
+
+  const decrypt = async (rawValue: string | null): Promise<string | null> => {
+    if (rawValue === null || !isEncryptedString(rawValue)) {
+      return rawValue
+    }
+
+    return decryptString(await getKey(), rawValue)
+  }
+
+  // Chain writes so a slower encryption can't overwrite a newer value
+  const enqueue = (write: () => Promise<void>): Promise<void> => {
+    const result = writeQueue.then(write)
+    writeQueue = result.catch(() => {
+      // Keep the queue alive after a failed write - the caller receives the error
+    })
+    return result
+  }
+
+  return {
+    name:
+      options.id === undefined
+        ? `${adapter.name}:encrypted`
+        : `${adapter.name}:encrypted:${options.id}`,
+    async: true,
+    get: async (key) => decrypt(await adapter.get(key)),
+    set: (key, value) =>
+      enqueue(async () => {
+        const encrypted = await encryptString(await getKey(), value)
+        await adapter.set(key, encrypted)
+      }),
+    remove: (key) =>
+      enqueue(async () => {
+        await adapter.remove(key)
+      }),
+    subscribe: baseSubscribe
+      ? (key, callback, onError) =>
+          baseSubscribe.call(
+            adapter,
+            key,
+            (rawValue) => {
+              decrypt(rawValue)
+                .then(callback)
+                .catch((error) => {
+                  onError?.(error)
+                })
+            },
+            onError
+          )
+      : undefined,
+    subscribeKeys: baseSubscribeKeys
+      ? (callback) => baseSubscribeKeys.call(adapter, callback)
+      : undefined,
+    keys: baseKeys ? () => baseKeys.call(adapter) : undefined,
+    clear: baseClear ? () => baseClear.call(adapter) : undefined,
+  }
+}
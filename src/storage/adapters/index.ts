@@ -0,0 +1,11 @@
+export {
+  createWebStorageAdapter,
+  isWebStorageAvailable,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from './webStorageAdapter'
+export { createCookieAdapter, cookieAdapter } from './cookieAdapter'
+export { indexedDBAdapter } from './indexedDBAdapter'
+export { createMemoryAdapter, memoryAdapter, getMemoryFallbackAdapter } from './memoryAdapter'
+export { createEncryptedAdapter } from './encryptedAdapter'
+export { resolveStorageAdapter } from './resolveStorageAdapter'
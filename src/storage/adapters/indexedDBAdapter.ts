@@ -0,0 +1,15 @@
+import type { StorageAdapter } from '../interface'
+import { idbGet, idbSet, idbRemove, idbKeys, idbClear } from '../utils/indexedDB'
+
+/**
+ * Built-in IndexedDB adapter (asynchronous)
+ */
+export const indexedDBAdapter: StorageAdapter = {
+  name: 'indexedDB',
+  async: true,
+  get: (key) => idbGet(key),
+  set: (key, value) => idbSet(key, value),
+  remove: (key) => idbRemove(key),
+  keys: () => idbKeys(),
+  clear: () => idbClear(),
+}
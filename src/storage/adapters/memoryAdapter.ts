@@ -0,0 +1,50 @@
+import type { StorageAdapter } from '../interface'
+
+let memoryAdapterCount = 0
+
+/**
+ * Create an adapter that keeps values in memory for the lifetime of the page
+ * Values are shared by every hook using the same adapter, but are not persisted
+ * Without a name, each adapter gets a unique one ('memory:1', 'memory:2'...)
+ */
+export function createMemoryAdapter(name?: string): StorageAdapter {
+  const data = new Map<string, string>()
+
+  if (name === undefined) {
+    memoryAdapterCount += 1
+  }
+
+  return {
+    name: name ?? `memory:${memoryAdapterCount}`,
+    get: (key) => data.get(key) ?? null,
+    set: (key, value) => {
+      data.set(key, value)
+    },
+    remove: (key) => {
+      data.delete(key)
+    },
+    keys: () => Array.from(data.keys()),
+    clear: () => data.clear(),
+  }
+}
+
+/**
+ * Built-in in-memory adapter
+ */
+export const memoryAdapter = createMemoryAdapter('memory')
+
+/**
+ * In-memory replacements used when localStorage or sessionStorage is unavailable
+ * Each storage type gets its own store, so their keys don't mix
+ */
+const fallbackAdapters: Record<'localStorage' | 'sessionStorage', StorageAdapter> = {
+  localStorage: createMemoryAdapter('memory:localStorage'),
+  sessionStorage: createMemoryAdapter('memory:sessionStorage'),
+}
+
+/**
+ * Get the in-memory replacement for an unavailable Web Storage type
+ */
+export function getMemoryFallbackAdapter(type: 'localStorage' | 'sessionStorage'): StorageAdapter {
+  return fallbackAdapters[type]
+}
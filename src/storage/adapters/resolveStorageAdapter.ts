@@ -0,0 +1,39 @@
+import type {
+  IStorageCookieOptions,
+  IStorageLogger,
+  StorageAdapter,
+  StorageType,
+} from '../interface'
+import { localStorageAdapter, sessionStorageAdapter } from './webStorageAdapter'
+import { cookieAdapter, createCookieAdapter } from './cookieAdapter'
+import { indexedDBAdapter } from './indexedDBAdapter'
+import { memoryAdapter } from './memoryAdapter'
+
+/**
+ * Resolve a storage type option to its adapter
+ * Custom adapters are returned as-is
+ * Invalid cookie options are reported to the logger
+ */
+export function resolveStorageAdapter(
+  storageType: StorageType | StorageAdapter,
+  cookieOptions?: IStorageCookieOptions,
+  logger?: IStorageLogger
+): StorageAdapter {
+  if (typeof storageType !== 'string') {
+    return storageType
+  }
+
+  switch (storageType) {
+    case 'sessionStorage':
+      return sessionStorageAdapter
+    case 'cookie':
+      return cookieOptions ? createCookieAdapter(cookieOptions, logger) : cookieAdapter
+    case 'indexedDB':
+      return indexedDBAdapter
+    case 'memory':
+      return memoryAdapter
+    case 'localStorage':
+    default:
+      return localStorageAdapter
+  }
+}
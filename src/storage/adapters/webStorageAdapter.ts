@@ -0,0 +1,90 @@
+import type { StorageAdapter } from '../interface'
+import { isQuotaExceededError } from '../utils/storageError'
+
+const PROBE_KEY = '__rhc_probe__'
+
+/**
+ * Check if localStorage or sessionStorage can be used
+ * Accessing or writing to Web Storage throws in Safari private mode, sandboxed iframes
+ * and some embedded webviews - a storage that is merely full still counts as available
+ */
+export function isWebStorageAvailable(type: 'localStorage' | 'sessionStorage'): boolean {
+  let storage: Storage | undefined
+
+  try {
+    storage = window[type]
+    storage.setItem(PROBE_KEY, PROBE_KEY)
+    storage.removeItem(PROBE_KEY)
+    return true
+  } catch (error) {
+    try {
+      return isQuotaExceededError(error) && storage !== undefined && storage.length > 0
+    } catch {
+      return false
+    }
+  }
+}
+
+/**
+ * Create an adapter for localStorage or sessionStorage
+ * The storage object is resolved on every call, so it is SSR-safe and
+ * picks up replaced/mocked storage objects
+ */
+export function createWebStorageAdapter(type: 'localStorage' | 'sessionStorage'): StorageAdapter {
+  const getStorage = (): Storage => window[type]
+
+  return {
+    name: type,
+    get: (key) => getStorage().getItem(key),
+    set: (key, value) => getStorage().setItem(key, value),
+    remove: (key) => getStorage().removeItem(key),
+    subscribe: (key, callback) => {
+      const handleStorageChange = (e: StorageEvent) => {
+        if (e.key === key && e.storageArea === getStorage()) {
+          callback(e.newValue)
+        }
+      }
+
+      window.addEventListener('storage', handleStorageChange)
+      return () => {
+        window.removeEventListener('storage', handleStorageChange)
+      }
+    },
+    subscribeKeys: (callback) => {
+      const handleStorageChange = (e: StorageEvent) => {
+        if (e.storageArea === getStorage()) {
+          callback(e.key)
+        }
+      }
+
+      window.addEventListener('storage', handleStorageChange)
+      return () => {
+        window.removeEventListener('storage', handleStorageChange)
+      }
+    },
+    keys: () => {
+      const storage = getStorage()
+      const keys: string[] = []
+
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i)
+        if (key !== null) {
+          keys.push(key)
+        }
+      }
+
+      return keys
+    },
+    clear: () => getStorage().clear(),
+  }
+}
+
+/**
+ * Built-in localStorage adapter
+ */
+export const localStorageAdapter = createWebStorageAdapter('localStorage')
+
+/**
+ * Built-in sessionStorage adapter
+ */
+export const sessionStorageAdapter = createWebStorageAdapter('sessionStorage')
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react'
+import type { IStorageContextValue } from '../interface'
+
+/**
+ * Context holding the useStorage defaults of the nearest StorageProvider
+ * Hooks outside a provider use an empty value (built-in defaults)
+ */
+export const StorageContext = createContext<IStorageContextValue>({})
+
+/**
+ * Read the useStorage defaults of the nearest StorageProvider
+ */
+export function useStorageContext(): IStorageContextValue {
+  return useContext(StorageContext)
+}
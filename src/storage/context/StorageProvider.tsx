@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react'
+import type { IStorageProviderProps } from '../interface'
+import { readRequestCookies } from '../utils/cookies'
+import { StorageContext, useStorageContext } from './StorageContext'
+
+/**
+ * Provide defaults (namespace, storage type, cookie options, sync, error handler and logger)
+ * for all useStorage hooks below it
+ * Request cookies seed cookie-backed values on the server, so hydration matches the client
+ * Options passed to a hook override the provided defaults
+ * Nested providers inherit every default they don't set themselves
+ * This is a client component - server components (Next.js App Router) must render it
+ * through a 'use client' module (see the `cookies` prop)
+ *
+ * @param {IStorageProviderProps} props - Provider defaults and children
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   return (
+ *     <StorageProvider namespace="checkout" storageType="sessionStorage" sync>
+ *       <Cart />
+ *     </StorageProvider>
+ *   )
+ * }
+ * ```
+ */
+export function StorageProvider({
+  children,
+  namespace,
+  storageType,
+  cookieOptions,
+  sync,
+  onError,
+  logger,
+  cookies,
+}: IStorageProviderProps) {
+  const parent = useStorageContext()
+
+  // Cookie options are compared by content so inline objects don't update every hook
+  const cookieOptionsKey = cookieOptions ? JSON.stringify(cookieOptions) : ''
+
+  // Request cookies are parsed once per cookie header (or cookie store)
+  const serverCookies = useMemo(
+    () => (cookies === undefined ? parent.serverCookies : readRequestCookies(cookies)),
+    [cookies, parent.serverCookies]
+  )
+
+  const value = useMemo(
+    () => ({
+      namespace: namespace ?? parent.namespace,
+      storageType: storageType ?? parent.storageType,
+      cookieOptions:
+        parent.cookieOptions || cookieOptions
+          ? { ...parent.cookieOptions, ...cookieOptions }
+          : undefined,
+      sync: sync ?? parent.sync,
+      onError: onError ?? parent.onError,
+      logger: logger ?? parent.logger,
+      serverCookies,
+    }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [parent, namespace, storageType, cookieOptionsKey, sync, onError, logger, serverCookies]
+  )
+
+  return <StorageContext.Provider value={value}>{children}</StorageContext.Provider>
+}
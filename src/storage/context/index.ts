@@ -0,0 +1,2 @@
+export { StorageContext, useStorageContext } from './StorageContext'
+export { StorageProvider } from './StorageProvider'
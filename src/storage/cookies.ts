@@ -0,0 +1,11 @@
+/**
+ * Cookie helpers without React, for route handlers, middleware and other server code
+ *
+ * @example
+ * ```ts
+ * import { parseCookies, serializeCookie } from 'react-hooks-core/storage/cookies'
+ * ```
+ */
+export { parseCookies, serializeCookie, validateCookieOptions } from './utils/cookies'
+
+export type { IStorageCookieOptions } from './interface'
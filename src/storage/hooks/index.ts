@@ -1 +1,5 @@
 export { useStorage } from './useStorage'
+export { useStorageKeys } from './useStorageKeys'
+export { useStorageReducer } from './useStorageReducer'
+export { useStorageHistory } from './useStorageHistory'
+export { usePersistedForm } from './usePersistedForm'
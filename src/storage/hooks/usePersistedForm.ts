@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import type {
+  IUsePersistedFormOptions,
+  IUsePersistedFormReturn,
+  PersistedFormValues,
+} from '../interface'
+import { useStorage } from './useStorage'
+
+const DEFAULT_DEBOUNCE_MS = 500
+
+/**
+ * Words marking a field as sensitive (matched against the words of the field name)
+ */
+const SENSITIVE_WORDS = new Set([
+  'password',
+  'passwd',
+  'pwd',
+  'passcode',
+  'passphrase',
+  'secret',
+  'token',
+  'otp',
+  'pin',
+  'cvc',
+  'cvv',
+  'ssn',
+])
+
+const SENSITIVE_PHRASES = ['card number', 'credit card', 'security code']
+
+/**
+ * Check if a field name looks sensitive, e.g. `newPassword`, `access_token` or `cardNumber`
+ */
+function isSensitiveFieldName(name: string): boolean {
+  const words = name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter((word) => word.length > 0)
+  const phrase = words.join(' ')
+
+  return (
+    words.some((word) => SENSITIVE_WORDS.has(word)) ||
+    SENSITIVE_PHRASES.some((sensitivePhrase) => phrase.includes(sensitivePhrase))
+  )
+}
+
+/**
+ * Keep the fields that may be persisted
+ */
+function pickPersistedFields<T extends PersistedFormValues>(
+  values: Partial<T>,
+  isExcluded: (name: string) => boolean
+): Partial<T> {
+  const persisted: Partial<T> = {}
+
+  Object.keys(values).forEach((name) => {
+    if (!isExcluded(name)) {
+      persisted[name as keyof T] = values[name as keyof T]
+    }
+  })
+
+  return persisted
+}
+
+/**
+ * Hook for form state that survives accidental refreshes
+ * The whole form is kept in React state and written to storage as one snapshot,
+ * debounced, so typing doesn't write on every keystroke
+ * Stored values are restored on mount and removed once the form is submitted successfully
+ * Sensitive fields (passwords, tokens, card numbers...) are never written by default
+ *
+ * @template T - Type of the form values
+ * @param {string} key - Storage key
+ * @param {T} initialValues - Values used for fields without a stored value
+ * @param {IUsePersistedFormOptions<T>} options - Optional configuration
+ * @returns {IUsePersistedFormReturn<T>} Form values and handlers
+ *
+ * @example
+ * ```tsx
+ * function SignupForm() {
+ *   const { values, handleChange, handleSubmit } = usePersistedForm('signup', {
+ *     email: '',
+ *     password: '',
+ *   })
+ *
+ *   return (
+ *     <form onSubmit={handleSubmit((values) => api.signup(values))}>
+ *       <input name="email" value={values.email} onChange={handleChange} />
+ *       <input name="password" type="password" value={values.password} onChange={handleChange} />
+ *     </form>
+ *   )
+ * }
+ * ```
+ */
+export function usePersistedForm<T extends PersistedFormValues>(
+  key: string,
+  initialValues: T,
+  options?: IUsePersistedFormOptions<T>
+): IUsePersistedFormReturn<T> {
+  const {
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    exclude,
+    excludeSensitive = true,
+    ...storageOptions
+  } = options || {}
+
+  const {
+    value: snapshot,
+    setValue: setSnapshot,
+    removeValue: removeSnapshot,
+    error,
+    loading,
+  } = useStorage<Partial<T>>(key, storageOptions)
+
+  // Fields changed through a password input are never persisted
+  const passwordFieldsRef = useRef<Set<string>>(new Set())
+  const excludeRef = useRef(exclude)
+  const excludeSensitiveRef = useRef(excludeSensitive)
+
+  const isExcluded = useCallback((name: string): boolean => {
+    return (
+      passwordFieldsRef.current.has(name) ||
+      (excludeRef.current?.includes(name) ?? false) ||
+      (excludeSensitiveRef.current && isSensitiveFieldName(name))
+    )
+  }, [])
+
+  const [values, setValuesState] = useState<T>(() =>
+    snapshot === null
+      ? initialValues
+      : { ...initialValues, ...pickPersistedFields(snapshot, isExcluded) }
+  )
+  const [isRestored, setIsRestored] = useState(snapshot !== null)
+  const [submitError, setSubmitError] = useState<unknown>(null)
+
+  const initialValuesRef = useRef(initialValues)
+  const valuesRef = useRef(values)
+  const debounceMsRef = useRef(debounceMs)
+  const restoredRef = useRef(snapshot !== null)
+  const isDirtyRef = useRef(false) // Whether values changed since the last restore, submit or reset
+  const pendingRef = useRef<Partial<T> | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Update refs
+  useEffect(() => {
+    excludeRef.current = exclude
+    excludeSensitiveRef.current = excludeSensitive
+    initialValuesRef.current = initialValues
+    valuesRef.current = values
+    debounceMsRef.current = debounceMs
+  }, [exclude, excludeSensitive, initialValues, values, debounceMs])
+
+  const cancelPendingWrite = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    pendingRef.current = null
+  }, [])
+
+  // Write the pending snapshot now
+  const flush = useCallback(() => {
+    const pending = pendingRef.current
+    cancelPendingWrite()
+
+    if (pending !== null) {
+      setSnapshot(pending)
+    }
+  }, [cancelPendingWrite, setSnapshot])
+
+  // Restore values that become available after the first render
+  // (asynchronous storage types, or hydration of server-rendered forms)
+  useEffect(() => {
+    if (loading || snapshot === null || restoredRef.current || isDirtyRef.current) {
+      return
+    }
+
+    restoredRef.current = true
+    setValuesState({ ...initialValuesRef.current, ...pickPersistedFields(snapshot, isExcluded) })
+    setIsRestored(true)
+  }, [snapshot, loading, isExcluded])
+
+  // Write changed values once the form has been idle for debounceMs
+  useEffect(() => {
+    if (!isDirtyRef.current) {
+      return
+    }
+
+    pendingRef.current = pickPersistedFields<T>(values, isExcluded)
+
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current)
+    }
+    timerRef.current = setTimeout(flush, debounceMsRef.current)
+  }, [values, isExcluded, flush])
+
+  // Don't lose the last changes when the form unmounts
+  useEffect(() => {
+    return () => {
+      flush()
+    }
+  }, [flush])
+
+  const setValues = useCallback((action: T | ((prevValues: T) => T)) => {
+    isDirtyRef.current = true
+    setValuesState(action)
+  }, [])
+
+  const setFieldValue = useCallback(<K extends keyof T>(name: K, value: T[K]) => {
+    isDirtyRef.current = true
+    setValuesState((prevValues) => ({ ...prevValues, [name]: value }))
+  }, [])
+
+  const handleChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+      const { name, type, value } = event.target
+
+      if (type === 'password') {
+        passwordFieldsRef.current.add(name)
+      }
+
+      const fieldValue = type === 'checkbox' ? (event.target as HTMLInputElement).checked : value
+
+      isDirtyRef.current = true
+      setValuesState((prevValues) => ({ ...prevValues, [name]: fieldValue }))
+    },
+    []
+  )
+
+  // The snapshot is only removed if onSubmit succeeds, so a failed submit can be retried
+  // Errors from onSubmit are kept in submitError instead of rejecting, as form event handlers
+  // usually don't await the returned promise
+  const handleSubmit = useCallback(
+    (onSubmit: (values: T) => void | Promise<void>) =>
+      async (event?: { preventDefault?: () => void }) => {
+        event?.preventDefault?.()
+        setSubmitError(null)
+
+        try {
+          await onSubmit(valuesRef.current)
+        } catch (submitFailure) {
+          setSubmitError(submitFailure)
+          return
+        }
+
+        cancelPendingWrite()
+        isDirtyRef.current = false
+        removeSnapshot()
+      },
+    [cancelPendingWrite, removeSnapshot]
+  )
+
+  const reset = useCallback(() => {
+    cancelPendingWrite()
+    isDirtyRef.current = false
+    setValuesState(initialValuesRef.current)
+    setIsRestored(false)
+    removeSnapshot()
+  }, [cancelPendingWrite, removeSnapshot])
+
+  return {
+    values,
+    setFieldValue,
+    setValues,
+    handleChange,
+    handleSubmit,
+    reset,
+    isRestored,
+    error,
+    submitError,
+  }
+}
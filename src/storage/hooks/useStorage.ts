@@ -1,9 +1,43 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import type { IUseStorageOptions, IUseStorageReturn, StorageValue } from '../interface'
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react'
+import type {
+  IStorageError,
+  IStorageSetOptions,
+  IUseRichStorageOptions,
+  IUseStorageOptions,
+  IUseStorageReturn,
+  RichStorageValue,
+  StorageAdapter,
+  StorageSetStateAction,
+  StorageValue,
+} from '../interface'
+import {
+  createEncryptedAdapter,
+  getMemoryFallbackAdapter,
+  isWebStorageAvailable,
+  resolveStorageAdapter,
+} from '../adapters'
+import {
+  createEnvelope,
+  createStorageError,
+  evictLeastRecentlyUsed,
+  isEnvelopeExpired,
+  isPromise,
+  isQuotaExceededError,
+  readEnvelope,
+  recordAccess,
+  removeAccess,
+  storageBatch,
+  storageStore,
+  storageSyncChannel,
+} from '../utils'
+import type { IStorageSnapshot } from '../utils'
+import { useStorageContext } from '../context'
 
 /**
  * Shared polling manager for all useStorage hooks
  * Prevents multiple intervals when using multiple hooks
+ * Only used when the `poll` option is enabled - writes made through useStorage
+ * are delivered by the storage store instead
  */
 class StoragePollingManager {
   private intervalId: NodeJS.Timeout | null = null
@@ -60,8 +94,144 @@ class StoragePollingManager {
 const pollingManager = new StoragePollingManager()
 
 /**
- * Hook for managing storage (localStorage, sessionStorage, or cookies)
+ * Raw value to write to a key
+ */
+interface IStorageWrite {
+  adapter: StorageAdapter
+  key: string
+  rawValue: string | null // null removes the key
+  namespace: string | undefined // Eviction namespace
+}
+
+/**
+ * Decoded stored value, cached by raw string
+ */
+interface IDecodedValue<T> {
+  adapter: StorageAdapter
+  key: string
+  rawValue: string | null
+  value: T | null
+  parseError: unknown // null when the value was decoded successfully
+  expiresAt: number | undefined // Expiry timestamp of values written with a ttl
+}
+
+/**
+ * Longest delay setTimeout supports (about 24.8 days) - longer delays fire immediately
+ */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/**
+ * Parse a raw stored string, falling back to the raw string for non-JSON values
+ */
+function parseRawValue<T>(rawValue: string): T {
+  try {
+    return JSON.parse(rawValue) as T
+  } catch {
+    // If not JSON, return as string (handles plain strings stored without JSON.stringify)
+    return rawValue as T
+  }
+}
+
+/**
+ * Write (or remove) a raw value, evicting least recently used keys of the namespace
+ * while the storage quota is exceeded
+ * Evicted keys are published as removed so hooks using them reset
+ * Each key is evicted at most once, so a removal or metadata update that fails can't loop forever
+ */
+function writeWithEviction(
+  adapter: StorageAdapter,
+  key: string,
+  rawValue: string | null,
+  namespace: string | undefined
+): void | Promise<void> {
+  const excludedKeys = new Set([key])
+
+  for (;;) {
+    try {
+      return rawValue === null ? adapter.remove(key) : adapter.set(key, rawValue)
+    } catch (error) {
+      if (namespace === undefined || !isQuotaExceededError(error)) {
+        throw error
+      }
+
+      const evictedKey = evictLeastRecentlyUsed(adapter, namespace, excludedKeys)
+      if (evictedKey === null) {
+        throw error
+      }
+
+      excludedKeys.add(evictedKey)
+
+      storageStore.publish(adapter.name, evictedKey, null)
+    }
+  }
+}
+
+/**
+ * Remove keys from an adapter and reset the hooks using them
+ * Removals are sent to other tabs with `broadcast` (null when syncing is disabled)
+ * Keys that can't be removed are passed to onError
+ */
+function removeKeys(
+  adapter: StorageAdapter,
+  keys: string[],
+  broadcast: ((key: string) => void) | null,
+  onError: (key: string, error: unknown) => void
+): void {
+  keys.forEach((key) => {
+    try {
+      const result = adapter.remove(key)
+      if (isPromise<void>(result)) {
+        result.catch((error) => {
+          onError(key, error)
+        })
+      }
+    } catch (error) {
+      onError(key, error)
+    }
+
+    storageStore.publish(adapter.name, key, null)
+
+    broadcast?.(key)
+  })
+}
+
+/**
+ * List the keys of an adapter and pass them to a callback
+ * Resolves asynchronously for adapters with asynchronous key listing
+ * Listing errors are passed to onError
+ */
+function withAdapterKeys(
+  adapter: StorageAdapter,
+  callback: (keys: string[]) => void,
+  onError: (error: unknown) => void
+): void {
+  if (!adapter.keys) {
+    return
+  }
+
+  try {
+    const keys = adapter.keys()
+
+    if (isPromise<string[]>(keys)) {
+      keys.then(callback).catch(onError)
+    } else {
+      callback(keys)
+    }
+  } catch (error) {
+    onError(error)
+  }
+}
+
+/**
+ * Hook for managing storage (localStorage, sessionStorage, cookies, IndexedDB, memory,
+ * or a custom adapter)
  * Supports string, number, boolean, array, and JSON object values
+ * Date, Map, Set, bigint and undefined values require a serializer and deserializer
+ * that support them (e.g. richSerializer)
+ * Defaults for the storage type, namespace, cookie options and sync come from the nearest
+ * StorageProvider
+ * Values are read through a per-key external store (useSyncExternalStore), so every hook
+ * using the same key renders the same value in the same commit
  *
  * @template T - Type of the stored value
  * @param {string} key - Storage key
@@ -91,109 +261,655 @@ const pollingManager = new StoragePollingManager()
 export function useStorage<T extends StorageValue = StorageValue>(
   key: string,
   options?: IUseStorageOptions<T>
+): IUseStorageReturn<T>
+export function useStorage<T extends RichStorageValue>(
+  key: string,
+  options: IUseRichStorageOptions<T>
+): IUseStorageReturn<T>
+export function useStorage<T extends RichStorageValue>(
+  key: string,
+  options?: IUseStorageOptions<T>
 ): IUseStorageReturn<T> {
+  const context = useStorageContext()
   const {
-    storageType = 'localStorage',
-    defaultValue = null,
-    sync = false,
-    cookieOptions,
+    storageType = context.storageType ?? 'localStorage',
+    namespace = context.namespace,
+    defaultValue,
+    sync = context.sync ?? false,
+    poll = false,
+    writeDebounceMs,
+    writeThrottleMs,
+    cookieOptions: hookCookieOptions,
+    validate,
+    parse,
+    onValidationError,
+    version,
+    migrate,
+    ttl,
+    serializer,
+    deserializer,
+    encryption,
+    eviction,
+    onQuotaExceeded,
+    onError = context.onError,
+    logger = context.logger ?? console,
     onChange,
   } = options || {}
 
-  // SSR-safe initialization
-  const [value, setValueState] = useState<T | null>(() => {
-    if (typeof window === 'undefined') {
-      return defaultValue ?? null
+  // Key in storage, prefixed with the namespace
+  const storageKey = namespace ? `${namespace}:${key}` : key
+
+  // Hook cookie options override the provided defaults
+  const cookieOptions =
+    context.cookieOptions || hookCookieOptions
+      ? { ...context.cookieOptions, ...hookCookieOptions }
+      : undefined
+
+  // Value used when nothing (valid) is stored
+  const fallbackValue: T | null = defaultValue === undefined ? null : defaultValue
+
+  // Keys sharing this namespace may be evicted to free space when the quota is exceeded
+  const evictionNamespace = eviction?.namespace
+
+  // Resolve the storage backend (built-in type or custom adapter), encrypting it if requested
+  // Cookie and encryption options are compared by content so inline objects don't recreate the adapter
+  const cookieOptionsKey = cookieOptions ? JSON.stringify(cookieOptions) : ''
+  const { key: encryptionKey, passphrase, salt, iterations, id: encryptionId } = encryption || {}
+  // Whether values are kept per tab, so syncing is limited to tabs of the same session
+  const isTabStorage = storageType === 'sessionStorage'
+
+  // Unavailable localStorage/sessionStorage falls back to in-memory storage
+  // Invalid cookie options are logged when the adapter is created, so the logger isn't a dependency
+  const { adapter, isFallback } = useMemo(
+    () => {
+      const isFallback =
+        typeof window !== 'undefined' &&
+        (storageType === 'localStorage' || storageType === 'sessionStorage') &&
+        !isWebStorageAvailable(storageType)
+
+      const baseAdapter = isFallback
+        ? getMemoryFallbackAdapter(storageType)
+        : resolveStorageAdapter(storageType, cookieOptions, logger)
+
+      if (encryptionKey === undefined && passphrase === undefined) {
+        return { adapter: baseAdapter, isFallback }
+      }
+
+      return {
+        adapter: createEncryptedAdapter(baseAdapter, {
+          key: encryptionKey,
+          passphrase,
+          salt,
+          iterations,
+          id: encryptionId,
+        }),
+        isFallback,
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [storageType, cookieOptionsKey, encryptionKey, passphrase, salt, iterations, encryptionId]
+  )
+
+  // Serialize a value for storage, recording the schema version and expiry when enabled
+  // Every value (strings included) is JSON stringified, so "123" and 123 stay distinct
+  const encodeValue = (newValue: T, setOptions?: IStorageSetOptions): string => {
+    // JSON.stringify returns undefined for undefined - store it as null
+    const payload = serializer ? serializer(newValue) : (JSON.stringify(newValue) ?? 'null')
+    const valueTtl = setOptions?.ttl ?? ttl
+    const expiresAt = valueTtl !== undefined && valueTtl > 0 ? Date.now() + valueTtl : undefined
+    return createEnvelope(payload, { version, expiresAt })
+  }
+
+  // Deserialize a raw stored string, migrate it to the current version and check its shape
+  // Invalid values fall back to defaultValue, with the error reported once the value renders
+  // Expired values also fall back to defaultValue (they are removed by an effect)
+  const decodeRawValue = (
+    rawValue: string
+  ): Pick<IDecodedValue<T>, 'value' | 'parseError' | 'expiresAt'> => {
+    const envelope = readEnvelope(rawValue)
+    const { expiresAt } = envelope
+
+    if (isEnvelopeExpired(envelope)) {
+      return { value: fallbackValue, parseError: null, expiresAt }
     }
 
     try {
-      let rawValue: string | null = null
+      let parsed = deserializer
+        ? deserializer(envelope.payload)
+        : parseRawValue<unknown>(envelope.payload)
+
+      // Values written before versioning was enabled are treated as version 0
+      const storedVersion = envelope.version ?? 0
+      if (version !== undefined && storedVersion !== version) {
+        if (!migrate || storedVersion > version) {
+          throw new TypeError(
+            `Stored value for key "${storageKey}" has version ${storedVersion}, expected ${version}`
+          )
+        }
 
-      if (storageType === 'cookie') {
-        rawValue = getCookie(key)
-      } else if (storageType === 'localStorage') {
-        rawValue = window.localStorage.getItem(key)
-      } else if (storageType === 'sessionStorage') {
-        rawValue = window.sessionStorage.getItem(key)
+        parsed = migrate(parsed, storedVersion)
       }
 
-      if (rawValue === null) {
-        return defaultValue ?? null
+      if (parse) {
+        return { value: parse(parsed), parseError: null, expiresAt }
       }
 
-      // Try to parse as JSON first, fallback to string
-      try {
-        const parsed = JSON.parse(rawValue)
-        return parsed as T
-      } catch {
-        // If not JSON, return as string (handles plain strings stored without JSON.stringify)
-        return rawValue as T
+      if (validate && !validate(parsed)) {
+        throw new TypeError(`Stored value for key "${storageKey}" failed validation`)
       }
+
+      return { value: parsed as T, parseError: null, expiresAt }
     } catch (error) {
-      console.warn(`Error reading storage for key "${key}":`, error)
-      return defaultValue ?? null
+      return { value: fallbackValue, parseError: error, expiresAt }
     }
-  })
+  }
+
+  // Decoded values are cached by raw string, so equal raw values keep the same value
+  const decodedRef = useRef<IDecodedValue<T> | null>(null)
+
+  // Decode a raw value, reusing the cached result for the same adapter, key and raw string
+  const decode = (rawValue: string | null): IDecodedValue<T> => {
+    const cached = decodedRef.current
+    if (
+      cached !== null &&
+      cached.adapter === adapter &&
+      cached.key === storageKey &&
+      cached.rawValue === rawValue
+    ) {
+      return cached
+    }
+
+    const decodedValue: IDecodedValue<T> = {
+      adapter,
+      key: storageKey,
+      rawValue,
+      ...(rawValue === null
+        ? { value: fallbackValue, parseError: null, expiresAt: undefined }
+        : decodeRawValue(rawValue)),
+    }
+    decodedRef.current = decodedValue
+    return decodedValue
+  }
+
+  const readValue = (rawValue: string | null): T | null => decode(rawValue).value
+
+  // Error from the last failed write, clear or poll (read and parse errors follow the stored value)
+  const [operationError, setOperationError] = useState<IStorageError | null>(null)
 
   const onChangeRef = useRef(onChange)
-  const keyRef = useRef(key)
-  const storageTypeRef = useRef(storageType)
-  const lastValueRef = useRef<string | null>(null) // Track last raw value for polling optimization
+  const onQuotaExceededRef = useRef(onQuotaExceeded)
+  const onValidationErrorRef = useRef(onValidationError)
+  const onErrorRef = useRef(onError)
+  const loggerRef = useRef(logger)
+  const evictionNamespaceRef = useRef(evictionNamespace)
+  const keyRef = useRef(storageKey)
+  const namespaceRef = useRef(namespace)
+  const adapterRef = useRef(adapter)
+  const syncRef = useRef(sync)
+  const writeDebounceMsRef = useRef(writeDebounceMs)
+  const writeThrottleMsRef = useRef(writeThrottleMs)
+  const encodeRef = useRef(encodeValue)
+  const readValueRef = useRef(readValue)
+  const lastValueRef = useRef<string | null>(null) // Track last raw value to skip unchanged updates
 
   // Update refs
   useEffect(() => {
     onChangeRef.current = onChange
-    keyRef.current = key
-    storageTypeRef.current = storageType
-  }, [onChange, key, storageType])
+    onQuotaExceededRef.current = onQuotaExceeded
+    onValidationErrorRef.current = onValidationError
+    onErrorRef.current = onError
+    loggerRef.current = logger
+    evictionNamespaceRef.current = evictionNamespace
+    keyRef.current = storageKey
+    namespaceRef.current = namespace
+    adapterRef.current = adapter
+    syncRef.current = sync
+    writeDebounceMsRef.current = writeDebounceMs
+    writeThrottleMsRef.current = writeThrottleMs
+  }, [
+    onChange,
+    onQuotaExceeded,
+    onValidationError,
+    onError,
+    logger,
+    evictionNamespace,
+    storageKey,
+    namespace,
+    adapter,
+    sync,
+    writeDebounceMs,
+    writeThrottleMs,
+  ])
+
+  // Let developers know values won't be persisted
+  useEffect(() => {
+    if (isFallback) {
+      loggerRef.current.warn(
+        `${String(storageType)} is not available, falling back to in-memory storage`
+      )
+    }
+  }, [isFallback, storageType])
+
+  // Keep the latest serialization, migration and validation options
+  useEffect(() => {
+    encodeRef.current = encodeValue
+    readValueRef.current = readValue
+  })
+
+  // Subscribe to the per-key store
+  // Changes made by other hooks, tabs or polling are reported through onChange
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      lastValueRef.current = storageStore.getSnapshot(adapter, storageKey).rawValue
+
+      return storageStore.subscribe(adapter, storageKey, (rawValue, isInitialRead) => {
+        if (rawValue !== lastValueRef.current) {
+          lastValueRef.current = rawValue
+
+          if (!isInitialRead) {
+            onChangeRef.current?.(rawValue === null ? null : readValueRef.current(rawValue))
+          }
+        }
+
+        onStoreChange()
+      })
+    },
+    [adapter, storageKey]
+  )
+
+  // Server rendering and hydration use the request cookies from StorageProvider (cookie storage)
+  // or defaultValue, so the first client render matches the server
+  const serverRawValue =
+    adapter.name === 'cookie' ? (context.serverCookies?.[storageKey] ?? null) : null
+  const serverSnapshot = useMemo<IStorageSnapshot>(
+    () =>
+      serverRawValue === null
+        ? storageStore.getServerSnapshot(adapter)
+        : { rawValue: serverRawValue, loading: false, readError: null },
+    [adapter, serverRawValue]
+  )
+
+  const getSnapshot = useCallback(
+    () =>
+      typeof window === 'undefined'
+        ? serverSnapshot
+        : storageStore.getSnapshot(adapter, storageKey),
+    [adapter, storageKey, serverSnapshot]
+  )
+
+  const getServerSnapshot = useCallback(() => serverSnapshot, [serverSnapshot])
+
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+  const decoded = decode(snapshot.rawValue)
+  const value = decoded.value
+
+  // Log an error and pass it to onError
+  const reportError = useCallback((message: string, storageError: IStorageError) => {
+    loggerRef.current.warn(message, storageError.cause)
+    onErrorRef.current?.(storageError)
+  }, [])
+
+  // Report a failed write, clear or poll and keep it as the hook error
+  const failOperation = useCallback(
+    (message: string, storageError: IStorageError) => {
+      reportError(message, storageError)
+      setOperationError(storageError)
+    },
+    [reportError]
+  )
+
+  // Send a written value to other tabs - the value is stored, so only syncing failed
+  const broadcast = useCallback(
+    (adapterName: string, broadcastKey: string, rawValue: string | null) => {
+      storageSyncChannel.broadcast(adapterName, broadcastKey, rawValue, (error) => {
+        reportError(
+          `Error broadcasting ${adapterName} change for key "${broadcastKey}":`,
+          createStorageError(broadcastKey, error, 'write')
+        )
+      })
+    },
+    [reportError]
+  )
+
+  // Errors reading or parsing the current stored value
+  const readError = useMemo(
+    () =>
+      snapshot.readError === null
+        ? null
+        : createStorageError(storageKey, snapshot.readError, 'read'),
+    [snapshot.readError, storageKey]
+  )
+  const parseError = useMemo(
+    () =>
+      decoded.parseError === null
+        ? null
+        : createStorageError(storageKey, decoded.parseError, 'parse'),
+    [decoded, storageKey]
+  )
+
+  // Report read and parse errors once per stored value
+  useEffect(() => {
+    if (readError !== null) {
+      reportError(`Error reading ${adapterRef.current.name} for key "${readError.key}":`, readError)
+    }
+  }, [readError, reportError])
+
+  useEffect(() => {
+    if (parseError !== null && decoded.rawValue !== null) {
+      reportError(`Invalid stored value for key "${parseError.key}":`, parseError)
+      onValidationErrorRef.current?.(parseError.cause, decoded.rawValue)
+    }
+  }, [parseError, decoded, reportError])
+
+  const error = operationError ?? parseError ?? readError
+
+  // Write a raw value, letting the caller free up space and retry once if the quota is exceeded
+  const writeToStorage = useCallback((write: IStorageWrite): void | Promise<void> => {
+    const { adapter: writeAdapter, key: writeKey, rawValue, namespace: writeNamespace } = write
+
+    try {
+      return writeWithEviction(writeAdapter, writeKey, rawValue, writeNamespace)
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error
+      }
+
+      const shouldRetry = onQuotaExceededRef.current?.(createStorageError(writeKey, error, 'write'))
+      if (shouldRetry !== true) {
+        throw error
+      }
+
+      return writeWithEviction(writeAdapter, writeKey, rawValue, writeNamespace)
+    }
+  }, [])
+
+  // Report a write that failed after its value was shown, restoring the persisted value
+  // unless a newer value was written meanwhile
+  const reportWriteError = useCallback(
+    (write: IStorageWrite, error: unknown) => {
+      const { adapter: writeAdapter, key: writeKey, rawValue } = write
+      failOperation(
+        `Error setting ${writeAdapter.name} for key "${writeKey}":`,
+        createStorageError(writeKey, error, 'write')
+      )
+
+      Promise.resolve()
+        .then(() => writeAdapter.get(writeKey))
+        .then((persistedValue) => {
+          const currentValue = storageStore.getSnapshot(writeAdapter, writeKey).rawValue
+          if (currentValue === rawValue) {
+            storageStore.publish(writeAdapter.name, writeKey, persistedValue)
+          }
+        })
+        .catch(() => {
+          // Nothing to restore if storage can't be read either
+        })
+    },
+    [failOperation]
+  )
+
+  // Write delayed by writeDebounceMs/writeThrottleMs
+  const pendingWriteRef = useRef<IStorageWrite | null>(null)
+  const pendingSinceRef = useRef(0)
+  const lastWriteTimeRef = useRef(0)
+  const writeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Forget the delayed write (e.g. because a newer value was written directly)
+  const cancelPendingWrite = useCallback(() => {
+    if (writeTimerRef.current !== null) {
+      clearTimeout(writeTimerRef.current)
+      writeTimerRef.current = null
+    }
+    pendingWriteRef.current = null
+  }, [])
+
+  // Write the delayed value now
+  const flush = useCallback(() => {
+    const pendingWrite = pendingWriteRef.current
+    cancelPendingWrite()
+
+    if (pendingWrite === null) {
+      return
+    }
+
+    lastWriteTimeRef.current = Date.now()
+
+    try {
+      const result = writeToStorage(pendingWrite)
+      if (isPromise<void>(result)) {
+        result.catch((error) => {
+          reportWriteError(pendingWrite, error)
+        })
+      }
+    } catch (error) {
+      reportWriteError(pendingWrite, error)
+      return
+    }
+
+    // Other tabs are only updated once the value is written
+    if (syncRef.current) {
+      broadcast(pendingWrite.adapter.name, pendingWrite.key, pendingWrite.rawValue)
+    }
+  }, [cancelPendingWrite, writeToStorage, reportWriteError, broadcast])
+
+  // Delay a write until setValue is idle for writeDebounceMs, at most writeThrottleMs
+  // after the last write (or the first delayed value when debouncing)
+  const delayWrite = useCallback(
+    (write: IStorageWrite) => {
+      const pendingWrite = pendingWriteRef.current
+      if (
+        pendingWrite !== null &&
+        (pendingWrite.adapter !== write.adapter || pendingWrite.key !== write.key)
+      ) {
+        flush()
+      }
+
+      const now = Date.now()
+      if (pendingWriteRef.current === null) {
+        pendingSinceRef.current = now
+      }
+      pendingWriteRef.current = write
+
+      const debounceMs = writeDebounceMsRef.current
+      const throttleMs = writeThrottleMsRef.current
+      let delay: number
+
+      if (throttleMs === undefined) {
+        delay = debounceMs ?? 0
+      } else if (debounceMs === undefined) {
+        delay = lastWriteTimeRef.current + throttleMs - now
+      } else {
+        delay = Math.min(debounceMs, pendingSinceRef.current + throttleMs - now)
+      }
+
+      if (delay <= 0) {
+        flush()
+        return
+      }
+
+      // Throttled writes keep their scheduled time
+      if (writeTimerRef.current !== null) {
+        if (debounceMs === undefined) {
+          return
+        }
+        clearTimeout(writeTimerRef.current)
+      }
+
+      writeTimerRef.current = setTimeout(flush, delay)
+    },
+    [flush]
+  )
 
   // Set value in storage
+  // A failed write keeps the last persisted value and is reported through `error`
+  // Inside batchStorageWrites, writes to synchronous storage are staged and written together
   const setValue = useCallback(
-    (newValue: T | null) => {
+    (action: StorageSetStateAction<T>, setOptions?: IStorageSetOptions) => {
       if (typeof window === 'undefined') {
         return
       }
 
+      const currentKey = keyRef.current
+      const currentAdapter = adapterRef.current
+      const currentNamespace = evictionNamespaceRef.current
+      const isBatched = storageBatch.isActive() && !currentAdapter.async
+      const isDelayed =
+        !isBatched &&
+        (writeDebounceMsRef.current !== undefined || writeThrottleMsRef.current !== undefined)
+
+      let newValue: T | null
+      let result: void | Promise<void>
+      let rawValue: string | null = null
+
+      // Update every hook using the key once the value is written (or delayed)
+      const commit = () => {
+        if (currentNamespace !== undefined && !isPromise<void>(result)) {
+          if (rawValue === null) {
+            removeAccess(currentAdapter, currentNamespace, currentKey)
+          } else {
+            recordAccess(currentAdapter, currentNamespace, currentKey)
+          }
+        }
+
+        // Keep the written value as-is instead of decoding it again
+        if (rawValue !== null) {
+          decodedRef.current = {
+            adapter: currentAdapter,
+            key: currentKey,
+            rawValue,
+            value: newValue,
+            parseError: null,
+            expiresAt: readEnvelope(rawValue).expiresAt,
+          }
+        }
+
+        lastValueRef.current = rawValue
+        setOperationError(null)
+        onChangeRef.current?.(newValue)
+
+        // Update every hook using the same key in the same render
+        storageStore.publish(currentAdapter.name, currentKey, rawValue)
+
+        // Update other tabs (delayed writes update them when written)
+        if (syncRef.current && !isDelayed) {
+          broadcast(currentAdapter.name, currentKey, rawValue)
+        }
+      }
+
       try {
-        const storageKey = keyRef.current
-        const type = storageTypeRef.current
-
-        if (newValue === null) {
-          // Remove value
-          if (type === 'cookie') {
-            removeCookie(storageKey, cookieOptions)
-            lastValueRef.current = null
-          } else if (type === 'localStorage') {
-            window.localStorage.removeItem(storageKey)
-            lastValueRef.current = null
-          } else if (type === 'sessionStorage') {
-            window.sessionStorage.removeItem(storageKey)
-            lastValueRef.current = null
+        // Updater functions receive the latest value, read fresh from storage unless a staged
+        // or delayed write is pending
+        // Asynchronous adapters can't be read synchronously, so their last known value is used
+        if (typeof action === 'function') {
+          let latestValue = storageStore.getSnapshot(currentAdapter, currentKey).rawValue
+          const pendingWrite = pendingWriteRef.current
+          const stagedValue = isBatched
+            ? storageBatch.getStagedValue(currentAdapter.name, currentKey)
+            : undefined
+
+          if (stagedValue !== undefined) {
+            latestValue = stagedValue
+          } else if (
+            pendingWrite !== null &&
+            pendingWrite.adapter === currentAdapter &&
+            pendingWrite.key === currentKey
+          ) {
+            latestValue = pendingWrite.rawValue
+          } else if (!currentAdapter.async) {
+            const storedValue = currentAdapter.get(currentKey)
+            if (!isPromise<string | null>(storedValue)) {
+              latestValue = storedValue
+            }
           }
+
+          newValue = action(readValueRef.current(latestValue))
         } else {
-          // Store value - serialize based on type for efficiency
-          // Strings are stored as-is, other types are JSON stringified
-          const stringValue = typeof newValue === 'string' ? newValue : JSON.stringify(newValue)
-
-          if (type === 'cookie') {
-            setCookie(storageKey, stringValue, cookieOptions)
-            lastValueRef.current = stringValue
-          } else if (type === 'localStorage') {
-            window.localStorage.setItem(storageKey, stringValue)
-            lastValueRef.current = stringValue
-          } else if (type === 'sessionStorage') {
-            window.sessionStorage.setItem(storageKey, stringValue)
-            lastValueRef.current = stringValue
+          newValue = action
+        }
+
+        rawValue = newValue === null ? null : encodeRef.current(newValue, setOptions)
+        const write: IStorageWrite = {
+          adapter: currentAdapter,
+          key: currentKey,
+          rawValue,
+          namespace: currentNamespace,
+        }
+
+        if (isDelayed) {
+          commit()
+          delayWrite(write)
+          return
+        }
+
+        // A direct write replaces a delayed write of the same key
+        const pendingWrite = pendingWriteRef.current
+        if (pendingWrite !== null) {
+          if (pendingWrite.adapter === currentAdapter && pendingWrite.key === currentKey) {
+            cancelPendingWrite()
+          } else {
+            flush()
           }
         }
 
-        setValueState(newValue)
-        onChangeRef.current?.(newValue)
+        if (isBatched) {
+          storageBatch.stage({
+            adapter: currentAdapter,
+            key: currentKey,
+            rawValue,
+            write: () => {
+              writeToStorage(write)
+            },
+            commit,
+            fail: (storageError, isCause) => {
+              if (isCause) {
+                reportError(
+                  `Error setting ${currentAdapter.name} for key "${currentKey}":`,
+                  storageError
+                )
+              }
+              setOperationError(storageError)
+            },
+            failRestore: (storageError) => {
+              reportError(
+                `Error restoring ${currentAdapter.name} for key "${currentKey}":`,
+                storageError
+              )
+            },
+          })
+          return
+        }
+
+        result = writeToStorage(write)
+
+        // Asynchronous adapters: update the value immediately, persist in the background
+        if (isPromise<void>(result)) {
+          result.catch((error) => {
+            if (isQuotaExceededError(error)) {
+              onQuotaExceededRef.current?.(createStorageError(currentKey, error, 'write'))
+            }
+            reportWriteError(write, error)
+          })
+        }
       } catch (error) {
-        console.warn(`Error setting ${storageTypeRef.current} for key "${keyRef.current}":`, error)
+        failOperation(
+          `Error setting ${currentAdapter.name} for key "${currentKey}":`,
+          createStorageError(currentKey, error, 'write')
+        )
+        return
       }
+
+      commit()
     },
-    [cookieOptions]
+    [
+      cancelPendingWrite,
+      delayWrite,
+      flush,
+      reportError,
+      failOperation,
+      reportWriteError,
+      writeToStorage,
+      broadcast,
+    ]
   )
 
   // Remove value from storage
@@ -201,230 +917,318 @@ export function useStorage<T extends StorageValue = StorageValue>(
     setValue(null)
   }, [setValue])
 
-  // Clear all storage (only for localStorage/sessionStorage)
+  // Report keys that couldn't be listed or removed while clearing
+  const failListing = useCallback(
+    (error: unknown) => {
+      failOperation(
+        `Error listing ${adapterRef.current.name} keys:`,
+        createStorageError(keyRef.current, error, 'clear')
+      )
+    },
+    [failOperation]
+  )
+
+  const failRemoval = useCallback(
+    (removedKey: string, error: unknown) => {
+      failOperation(
+        `Error removing ${adapterRef.current.name} key "${removedKey}":`,
+        createStorageError(removedKey, error, 'clear')
+      )
+    },
+    [failOperation]
+  )
+
+  // Send keys removed while clearing to other tabs (null when syncing is disabled)
+  const getRemovalBroadcast = useCallback(
+    (removalAdapter: StorageAdapter) =>
+      syncRef.current
+        ? (removedKey: string) => {
+            broadcast(removalAdapter.name, removedKey, null)
+          }
+        : null,
+    [broadcast]
+  )
+
+  // Remove the keys owned by this hook (its namespace, or only its own key)
   const clear = useCallback(() => {
     if (typeof window === 'undefined') {
       return
     }
 
+    const currentAdapter = adapterRef.current
+    const currentNamespace = namespaceRef.current
+
+    // Without a namespace (or a way to list keys) the hook only owns its own key
+    if (!currentNamespace || !currentAdapter.keys) {
+      setValue(null)
+      flush()
+      return
+    }
+
+    // A delayed write would bring a cleared key back
+    cancelPendingWrite()
+
+    const prefix = `${currentNamespace}:`
+    withAdapterKeys(
+      currentAdapter,
+      (keys) => {
+        removeKeys(
+          currentAdapter,
+          keys.filter((storedKey) => storedKey.startsWith(prefix)),
+          getRemovalBroadcast(currentAdapter),
+          failRemoval
+        )
+      },
+      failListing
+    )
+  }, [setValue, flush, cancelPendingWrite, getRemovalBroadcast, failRemoval, failListing])
+
+  // Remove every key of the storage type on the origin
+  const clearAll = useCallback(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    const currentAdapter = adapterRef.current
+
+    // A delayed write would bring a cleared key back
+    cancelPendingWrite()
+
+    // Cookies can't be cleared at once, so they are removed key by key
+    if (!currentAdapter.clear) {
+      withAdapterKeys(
+        currentAdapter,
+        (keys) => {
+          removeKeys(currentAdapter, keys, getRemovalBroadcast(currentAdapter), failRemoval)
+        },
+        failListing
+      )
+      return
+    }
+
+    const failClear = (error: unknown) => {
+      failOperation(
+        `Error clearing ${currentAdapter.name}:`,
+        createStorageError(keyRef.current, error, 'clear')
+      )
+    }
+
     try {
-      const type = storageTypeRef.current
-      if (type === 'localStorage') {
-        window.localStorage.clear()
-      } else if (type === 'sessionStorage') {
-        window.sessionStorage.clear()
+      const result = currentAdapter.clear()
+
+      if (isPromise<void>(result)) {
+        result.catch(failClear)
       }
-      // Cookies cannot be cleared all at once
+
+      // Reset every hook using this adapter
+      storageStore.publishClear(currentAdapter.name)
     } catch (error) {
-      console.warn(`Error clearing ${storageTypeRef.current}:`, error)
+      failClear(error)
     }
-  }, [])
+  }, [cancelPendingWrite, failOperation, getRemovalBroadcast, failRemoval, failListing])
 
   // Check if value exists
   const hasValue = value !== null
 
-  // Sync with other tabs/windows (only for localStorage)
+  // Remove the value once it expires, resetting every hook using the key
   useEffect(() => {
-    if (typeof window === 'undefined' || !sync || storageType !== 'localStorage') {
+    const { adapter: expiringAdapter, key: expiringKey, rawValue, expiresAt } = decoded
+    if (typeof window === 'undefined' || expiresAt === undefined || rawValue === null) {
       return
     }
 
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === key && e.storageArea === window.localStorage) {
-        const rawValue = e.newValue
-        lastValueRef.current = rawValue
+    let timerId: ReturnType<typeof setTimeout> | null = null
 
-        let newValue: T | null = null
-        if (rawValue !== null) {
-          try {
-            // Try to parse as JSON first
-            newValue = JSON.parse(rawValue) as T
-          } catch {
-            // If not JSON, treat as string
-            newValue = rawValue as T
-          }
-        }
+    const expire = () => {
+      const remaining = expiresAt - Date.now()
+      if (remaining > 0) {
+        timerId = setTimeout(expire, Math.min(remaining, MAX_TIMEOUT_MS))
+        return
+      }
 
-        setValueState(newValue)
-        onChangeRef.current?.(newValue)
+      timerId = null
+
+      try {
+        const result = expiringAdapter.remove(expiringKey)
+        if (isPromise<void>(result)) {
+          result.catch(() => {
+            // Expired values are also skipped on read, so a failed removal is harmless
+          })
+        }
+      } catch {
+        // Expired values are also skipped on read, so a failed removal is harmless
       }
+
+      storageStore.publish(expiringAdapter.name, expiringKey, null)
     }
 
-    window.addEventListener('storage', handleStorageChange)
+    expire()
+
     return () => {
-      window.removeEventListener('storage', handleStorageChange)
+      if (timerId !== null) {
+        clearTimeout(timerId)
+      }
     }
-  }, [key, sync, storageType])
+  }, [decoded])
 
-  // Listen for changes in the same window (for programmatic changes)
-  // Uses shared polling manager to prevent multiple intervals when using multiple hooks
-  // Polls for localStorage, sessionStorage, and cookies to detect programmatic changes
-  // Only skips polling when sync is enabled for localStorage (storage events handle it)
+  // Reading a value counts as an access for LRU eviction
   useEffect(() => {
-    if (typeof window === 'undefined') {
+    if (typeof window === 'undefined' || evictionNamespace === undefined || adapter.async) {
       return
     }
 
-    const type = storageTypeRef.current
+    if (storageStore.getSnapshot(adapter, storageKey).rawValue !== null) {
+      recordAccess(adapter, evictionNamespace, storageKey)
+    }
+  }, [storageKey, adapter, evictionNamespace])
 
-    // Skip polling only if sync is enabled for localStorage (storage events handle it)
-    if (sync && type === 'localStorage') {
+  // Sync with other tabs/windows
+  // BroadcastChannel carries writes made through useStorage for every adapter,
+  // the adapter subscription (e.g. the `storage` event) is the fallback and also
+  // catches writes made outside useStorage - duplicates are skipped by the store
+  useEffect(() => {
+    if (typeof window === 'undefined' || !sync) {
       return
     }
 
-    const checkValue = () => {
-      try {
-        const storageKey = keyRef.current
-        const currentType = storageTypeRef.current
-        let rawValue: string | null = null
-
-        if (currentType === 'cookie') {
-          rawValue = getCookie(storageKey)
-        } else if (currentType === 'localStorage') {
-          rawValue = window.localStorage.getItem(storageKey)
-        } else if (currentType === 'sessionStorage') {
-          rawValue = window.sessionStorage.getItem(storageKey)
+    const unsubscribeChannel = storageSyncChannel.subscribe(
+      adapter.name,
+      storageKey,
+      (rawValue, isSameSession) => {
+        // sessionStorage is per tab - only tabs opened from this one share its values
+        if (isTabStorage && !isSameSession) {
+          return
         }
 
-        // Only update if the raw value changed (avoid unnecessary JSON.stringify)
-        if (rawValue !== lastValueRef.current) {
-          lastValueRef.current = rawValue
-
-          let currentValue: T | null = null
-          if (rawValue !== null) {
-            try {
-              // Try to parse as JSON first
-              currentValue = JSON.parse(rawValue) as T
-            } catch {
-              // If not JSON, treat as string
-              currentValue = rawValue as T
+        try {
+          // Mirror the value into storage that isn't shared between tabs (sessionStorage)
+          // Shared storage (localStorage, cookies) already holds it, so nothing is written
+          if (!adapter.async) {
+            const currentValue = adapter.get(storageKey)
+            if (!isPromise(currentValue) && currentValue !== rawValue) {
+              if (rawValue === null) {
+                adapter.remove(storageKey)
+              } else {
+                adapter.set(storageKey, rawValue)
+              }
             }
           }
-
-          setValueState(currentValue)
-          onChangeRef.current?.(currentValue)
+        } catch (error) {
+          failOperation(
+            `Error mirroring ${adapter.name} for key "${storageKey}":`,
+            createStorageError(storageKey, error, 'write')
+          )
         }
-      } catch (error) {
-        // Silently fail
-      }
-    }
 
-    // Initialize last value (with error handling)
-    const storageKey = keyRef.current
-    try {
-      if (type === 'cookie') {
-        lastValueRef.current = getCookie(storageKey)
-      } else if (type === 'localStorage') {
-        lastValueRef.current = window.localStorage.getItem(storageKey)
-      } else if (type === 'sessionStorage') {
-        lastValueRef.current = window.sessionStorage.getItem(storageKey)
+        storageStore.publish(adapter.name, storageKey, rawValue)
       }
-    } catch (error) {
-      // Silently handle errors during initialization
-      lastValueRef.current = null
-    }
+    )
 
-    // Subscribe to shared polling manager (prevents multiple intervals)
-    const unsubscribe = pollingManager.subscribe(checkValue)
+    // Changes that can't be read (e.g. values that fail to decrypt) are reported as read errors
+    // until a change is read again
+    const unsubscribeAdapter = adapter.subscribe?.(
+      storageKey,
+      (rawValue) => {
+        setOperationError((prevError) => (prevError?.operation === 'read' ? null : prevError))
+        storageStore.publish(adapter.name, storageKey, rawValue)
+      },
+      (error) => {
+        failOperation(
+          `Error reading ${adapter.name} for key "${storageKey}":`,
+          createStorageError(storageKey, error, 'read')
+        )
+      }
+    )
 
     return () => {
-      unsubscribe()
-      lastValueRef.current = null
+      unsubscribeChannel()
+      unsubscribeAdapter?.()
     }
-  }, [key, storageType, sync])
+  }, [storageKey, sync, adapter, isTabStorage, failOperation])
 
-  return {
-    value,
-    setValue,
-    removeValue,
-    hasValue,
-    clear,
-  }
-}
-
-/**
- * Get cookie value
- */
-function getCookie(name: string): string | null {
-  if (typeof document === 'undefined') {
-    return null
-  }
-
-  const nameEQ = name + '='
-  const cookies = document.cookie.split(';')
-
-  for (let i = 0; i < cookies.length; i++) {
-    let cookie = cookies[i]
-    while (cookie.charAt(0) === ' ') {
-      cookie = cookie.substring(1, cookie.length)
-    }
-    if (cookie.indexOf(nameEQ) === 0) {
-      return decodeURIComponent(cookie.substring(nameEQ.length, cookie.length))
+  // Write delayed values before the page is closed or the hook unmounts
+  // (`pagehide` also fires when the page goes into the back/forward cache, unlike `unload`)
+  const hasWriteDelay = writeDebounceMs !== undefined || writeThrottleMs !== undefined
+  useEffect(() => {
+    if (typeof window === 'undefined' || !hasWriteDelay) {
+      return
     }
-  }
 
-  return null
-}
+    window.addEventListener('pagehide', flush)
 
-/**
- * Set cookie value
- */
-function setCookie(
-  name: string,
-  value: string,
-  options?: IUseStorageOptions['cookieOptions']
-): void {
-  if (typeof document === 'undefined') {
-    return
-  }
+    return () => {
+      window.removeEventListener('pagehide', flush)
+      flush()
+    }
+  }, [hasWriteDelay, flush])
 
-  const { expires, path = '/', domain, secure = false, sameSite = 'Lax' } = options || {}
+  // Optional fallback for writes made outside useStorage (e.g. direct localStorage.setItem calls)
+  // Uses shared polling manager to prevent multiple intervals when using multiple hooks
+  useEffect(() => {
+    if (typeof window === 'undefined' || !poll) {
+      return
+    }
 
-  let cookieString = `${name}=${encodeURIComponent(value)}`
+    // A failing poll is reported once, until polling succeeds again
+    let isFailing = false
 
-  // Handle expiration: undefined = default (365 days), 0 = session cookie, number = days
-  if (expires !== undefined && expires !== 0) {
-    const date = new Date()
-    date.setTime(date.getTime() + expires * 24 * 60 * 60 * 1000)
-    cookieString += `; expires=${date.toUTCString()}`
-  } else if (expires === undefined) {
-    // Default to 365 days if not specified
-    const date = new Date()
-    date.setTime(date.getTime() + 365 * 24 * 60 * 60 * 1000)
-    cookieString += `; expires=${date.toUTCString()}`
-  }
-  // If expires === 0, don't add expires attribute (session cookie)
+    const checkValue = () => {
+      const currentKey = keyRef.current
+      const currentAdapter = adapterRef.current
 
-  cookieString += `; path=${path}`
+      // Storage still holds the value replaced by a delayed write
+      if (pendingWriteRef.current !== null) {
+        return
+      }
 
-  if (domain) {
-    cookieString += `; domain=${domain}`
-  }
+      const handleValue = (rawValue: string | null) => {
+        if (isFailing) {
+          isFailing = false
+          setOperationError((prevError) => (prevError?.operation === 'poll' ? null : prevError))
+        }
 
-  if (secure) {
-    cookieString += '; secure'
-  }
+        storageStore.publish(currentAdapter.name, currentKey, rawValue)
+      }
 
-  cookieString += `; SameSite=${sameSite}`
+      const handleError = (error: unknown) => {
+        if (!isFailing) {
+          isFailing = true
+          failOperation(
+            `Error polling ${currentAdapter.name} for key "${currentKey}":`,
+            createStorageError(currentKey, error, 'poll')
+          )
+        }
+      }
 
-  document.cookie = cookieString
-}
+      try {
+        const rawValue = currentAdapter.get(currentKey)
 
-/**
- * Remove cookie
- */
-function removeCookie(name: string, options?: IUseStorageOptions['cookieOptions']): void {
-  if (typeof document === 'undefined') {
-    return
-  }
+        if (isPromise<string | null>(rawValue)) {
+          rawValue.then(handleValue).catch(handleError)
+          return
+        }
 
-  const { path = '/', domain } = options || {}
+        handleValue(rawValue)
+      } catch (error) {
+        handleError(error)
+      }
+    }
 
-  let cookieString = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${path}`
+    // Subscribe to shared polling manager (prevents multiple intervals)
+    return pollingManager.subscribe(checkValue)
+  }, [poll, failOperation])
 
-  if (domain) {
-    cookieString += `; domain=${domain}`
+  return {
+    value,
+    setValue,
+    removeValue,
+    flush,
+    hasValue,
+    clear,
+    clearAll,
+    error,
+    status: error !== null ? 'error' : snapshot.loading ? 'idle' : 'ready',
+    isFallback,
+    loading: snapshot.loading,
   }
-
-  document.cookie = cookieString
 }
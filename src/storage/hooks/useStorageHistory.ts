@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type {
+  IStorageSerializer,
+  IStorageSetOptions,
+  IUseRichStorageOptions,
+  IUseStorageHistoryOptions,
+  IUseStorageHistoryReturn,
+  RichStorageValue,
+  StorageSetStateAction,
+  StorageValue,
+} from '../interface'
+import { batchStorageWrites, richSerializer } from '../utils'
+import { useStorage } from './useStorage'
+
+const DEFAULT_MAX_DEPTH = 50
+
+/**
+ * Prefix of the key holding the history of a value (hidden from useStorageKeys)
+ */
+const HISTORY_KEY_PREFIX = '__rhc_history:'
+
+/**
+ * Persisted past and future values, oldest past value first and next future value first
+ */
+type StoredHistory<T> = {
+  past: Array<T | null>
+  future: Array<T | null>
+}
+
+function isStoredHistory<T>(value: unknown): value is StoredHistory<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as StoredHistory<T>).past) &&
+    Array.isArray((value as StoredHistory<T>).future)
+  )
+}
+
+/**
+ * Keep the last `maxDepth` past values (the ones closest to the present)
+ */
+function keepPast<T>(values: T[], maxDepth: number): T[] {
+  return maxDepth > 0 ? values.slice(-maxDepth) : []
+}
+
+/**
+ * Keep the first `maxDepth` future values (the ones closest to the present)
+ */
+function keepFuture<T>(values: T[], maxDepth: number): T[] {
+  return maxDepth > 0 ? values.slice(0, maxDepth) : []
+}
+
+/**
+ * Hook for a stored value with persisted undo/redo history
+ * The value is stored under `key` like with useStorage, its past and future values are stored
+ * next to it in the same storage type, so history survives a reload
+ * Values and history are written together (see batchStorageWrites)
+ * History is serialized with richSerializer
+ *
+ * @template T - Type of the stored value
+ * @param {string} key - Storage key
+ * @param {IUseStorageHistoryOptions<T>} options - Optional configuration
+ * @returns {IUseStorageHistoryReturn<T>} Storage management object with undo/redo
+ *
+ * @example
+ * ```tsx
+ * function Editor() {
+ *   const { value, setValue, undo, redo, canUndo, canRedo } = useStorageHistory('document', {
+ *     defaultValue: '',
+ *     maxDepth: 100,
+ *   })
+ *
+ *   return (
+ *     <>
+ *       <textarea value={value ?? ''} onChange={(e) => setValue(e.target.value)} />
+ *       <button onClick={undo} disabled={!canUndo}>Undo</button>
+ *       <button onClick={redo} disabled={!canRedo}>Redo</button>
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function useStorageHistory<T extends StorageValue = StorageValue>(
+  key: string,
+  options?: IUseStorageHistoryOptions<T>
+): IUseStorageHistoryReturn<T>
+export function useStorageHistory<T extends RichStorageValue>(
+  key: string,
+  options: IUseStorageHistoryOptions<T> & IStorageSerializer<T>
+): IUseStorageHistoryReturn<T>
+export function useStorageHistory<T extends RichStorageValue>(
+  key: string,
+  options?: IUseStorageHistoryOptions<T>
+): IUseStorageHistoryReturn<T> {
+  const { maxDepth = DEFAULT_MAX_DEPTH, ...storageOptions } = options || {}
+  const { storageType, namespace, sync, poll, cookieOptions, encryption, onError, logger } =
+    storageOptions
+
+  // The public signatures make sure rich values come with a serializer
+  const storage = useStorage<T>(key, storageOptions as IUseRichStorageOptions<T>)
+  const history = useStorage<StoredHistory<T>>(`${HISTORY_KEY_PREFIX}${key}`, {
+    storageType,
+    namespace,
+    sync,
+    poll,
+    cookieOptions,
+    encryption,
+    onError,
+    logger,
+    ...richSerializer,
+    validate: (value): value is StoredHistory<T> => isStoredHistory<T>(value),
+  })
+
+  const { setValue: setStoredValue, clear: clearStoredValue, flush: flushStoredValue } = storage
+  const { setValue: setHistory, removeValue: removeHistory, flush: flushHistory } = history
+
+  const maxDepthRef = useRef(maxDepth)
+
+  // Update refs
+  useEffect(() => {
+    maxDepthRef.current = maxDepth
+  }, [maxDepth])
+
+  // Set the value, moving the current value to the past and forgetting undone values
+  const setValue = useCallback(
+    (action: StorageSetStateAction<T>, setOptions?: IStorageSetOptions) => {
+      batchStorageWrites(() => {
+        let present: T | null = null
+        let changed = false
+
+        setStoredValue((prevValue) => {
+          present = prevValue
+          const nextValue = typeof action === 'function' ? action(prevValue) : action
+          changed = !Object.is(nextValue, prevValue)
+          return nextValue
+        }, setOptions)
+
+        if (!changed) {
+          return
+        }
+
+        setHistory((prevHistory) => ({
+          past: keepPast([...(prevHistory?.past ?? []), present], maxDepthRef.current),
+          future: [],
+        }))
+      })
+    },
+    [setStoredValue, setHistory]
+  )
+
+  // Move between the present and the past (direction -1) or the future (direction 1)
+  const travel = useCallback(
+    (direction: -1 | 1) => {
+      batchStorageWrites(() => {
+        let hasTarget = false
+        let target: T | null = null
+
+        setHistory((prevHistory) => {
+          const { past = [], future = [] } = prevHistory ?? {}
+          const source = direction === -1 ? past : future
+          if (source.length === 0) {
+            return prevHistory
+          }
+
+          hasTarget = true
+          if (direction === -1) {
+            target = past[past.length - 1]
+            return { past: past.slice(0, -1), future }
+          }
+
+          target = future[0]
+          return { past, future: future.slice(1) }
+        })
+
+        if (!hasTarget) {
+          return
+        }
+
+        let present: T | null = null
+        setStoredValue((prevValue) => {
+          present = prevValue
+          return target
+        })
+
+        setHistory((prevHistory) => {
+          const { past = [], future = [] } = prevHistory ?? {}
+          return direction === -1
+            ? { past, future: keepFuture([present, ...future], maxDepthRef.current) }
+            : { past: keepPast([...past, present], maxDepthRef.current), future }
+        })
+      })
+    },
+    [setStoredValue, setHistory]
+  )
+
+  const undo = useCallback(() => {
+    travel(-1)
+  }, [travel])
+
+  const redo = useCallback(() => {
+    travel(1)
+  }, [travel])
+
+  const removeValue = useCallback(() => {
+    setValue(null)
+  }, [setValue])
+
+  // Clearing the value also forgets its history
+  const clear = useCallback(() => {
+    clearStoredValue()
+    removeHistory()
+  }, [clearStoredValue, removeHistory])
+
+  const flush = useCallback(() => {
+    flushStoredValue()
+    flushHistory()
+  }, [flushStoredValue, flushHistory])
+
+  const error = storage.error ?? history.error
+  const loading = storage.loading || history.loading
+
+  return {
+    value: storage.value,
+    setValue,
+    removeValue,
+    flush,
+    hasValue: storage.hasValue,
+    clear,
+    clearAll: storage.clearAll,
+    error,
+    status: error !== null ? 'error' : loading ? 'idle' : 'ready',
+    isFallback: storage.isFallback,
+    loading,
+    undo,
+    redo,
+    canUndo: (history.value?.past.length ?? 0) > 0,
+    canRedo: (history.value?.future.length ?? 0) > 0,
+    clearHistory: removeHistory,
+  }
+}
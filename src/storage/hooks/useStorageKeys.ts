@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import type { IUseStorageKeysOptions, IUseStorageKeysReturn, StorageAdapter } from '../interface'
+import { getMemoryFallbackAdapter, isWebStorageAvailable, resolveStorageAdapter } from '../adapters'
+import { createStorageError, isPromise, storageStore } from '../utils'
+import { useStorageContext } from '../context'
+
+/**
+ * Prefix of keys used internally by the storage hooks (e.g. LRU access metadata, history)
+ */
+const INTERNAL_KEY_PREFIX = '__rhc_'
+
+interface IStorageKeysSnapshot {
+  keys: string[]
+  loading: boolean
+  error: unknown // Error thrown by the last listing (null when it succeeded)
+}
+
+const EMPTY_SNAPSHOT: IStorageKeysSnapshot = { keys: [], loading: false, error: null }
+const LOADING_SNAPSHOT: IStorageKeysSnapshot = { keys: [], loading: true, error: null }
+
+/**
+ * List the keys of an adapter (empty if the adapter can't list keys)
+ */
+function listKeys(adapter: StorageAdapter): string[] | Promise<string[]> {
+  return adapter.keys ? adapter.keys() : []
+}
+
+/**
+ * Keep the stored keys starting with `storagePrefix`, without the namespace prefix, sorted
+ */
+function matchKeys(storedKeys: string[], storagePrefix: string, namespacePrefix: string): string[] {
+  return storedKeys
+    .filter((key) => key.startsWith(storagePrefix) && !key.startsWith(INTERNAL_KEY_PREFIX))
+    .map((key) => key.substring(namespacePrefix.length))
+    .filter((key) => !key.startsWith(INTERNAL_KEY_PREFIX))
+    .sort()
+}
+
+function isSameKeys(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, index) => key === b[index])
+}
+
+/**
+ * Hook for listing the keys of a storage type, e.g. to show saved drafts
+ * The list is updated when useStorage writes or removes a matching key and when another tab
+ * changes localStorage (`storage` event) - writes made outside useStorage in the same tab
+ * show up on the next render
+ * Defaults for the storage type, namespace, error handler and logger come from the nearest
+ * StorageProvider
+ *
+ * @param {IUseStorageKeysOptions} options - Optional configuration
+ * @returns {IUseStorageKeysReturn} Matching keys
+ *
+ * @example
+ * ```tsx
+ * function DraftList() {
+ *   const { keys } = useStorageKeys({ prefix: 'draft:' })
+ *
+ *   return (
+ *     <ul>
+ *       {keys.map((key) => (
+ *         <li key={key}>{key}</li>
+ *       ))}
+ *     </ul>
+ *   )
+ * }
+ * ```
+ */
+export function useStorageKeys(options?: IUseStorageKeysOptions): IUseStorageKeysReturn {
+  const context = useStorageContext()
+  const {
+    prefix = '',
+    storageType = context.storageType ?? 'localStorage',
+    namespace = context.namespace,
+    onError = context.onError,
+    logger = context.logger ?? console,
+  } = options || {}
+
+  // Keys are stored as `${namespace}:${key}`
+  const namespacePrefix = namespace ? `${namespace}:` : ''
+  const storagePrefix = `${namespacePrefix}${prefix}`
+
+  // Unavailable localStorage/sessionStorage falls back to in-memory storage, like useStorage
+  const adapter = useMemo(() => {
+    const isFallback =
+      typeof window !== 'undefined' &&
+      (storageType === 'localStorage' || storageType === 'sessionStorage') &&
+      !isWebStorageAvailable(storageType)
+
+    return isFallback ? getMemoryFallbackAdapter(storageType) : resolveStorageAdapter(storageType)
+  }, [storageType])
+
+  const onErrorRef = useRef(onError)
+  const loggerRef = useRef(logger)
+
+  // Update refs
+  useEffect(() => {
+    onErrorRef.current = onError
+    loggerRef.current = logger
+  }, [onError, logger])
+
+  // Log a listing error and pass it to onError
+  const reportError = useCallback(
+    (error: unknown) => {
+      loggerRef.current.warn(`Error listing ${adapter.name} keys:`, error)
+      onErrorRef.current?.(createStorageError(storagePrefix, error, 'read'))
+    },
+    [adapter, storagePrefix]
+  )
+
+  // Last listing - replaced only when the keys change, so equal listings don't re-render
+  // `version` is incremented on every asynchronous listing so stale results are ignored
+  const cache = useMemo<{ snapshot: IStorageKeysSnapshot; version: number }>(
+    () => ({ snapshot: adapter.async ? LOADING_SNAPSHOT : EMPTY_SNAPSHOT, version: 0 }),
+    [adapter]
+  )
+
+  // Store the matching keys, returns whether they changed
+  const updateKeys = useCallback(
+    (storedKeys: string[]): boolean => {
+      const keys = matchKeys(storedKeys, storagePrefix, namespacePrefix)
+      if (
+        !cache.snapshot.loading &&
+        cache.snapshot.error === null &&
+        isSameKeys(cache.snapshot.keys, keys)
+      ) {
+        return false
+      }
+
+      cache.snapshot = { keys, loading: false, error: null }
+      return true
+    },
+    [cache, storagePrefix, namespacePrefix]
+  )
+
+  // Keep a listing error in the snapshot, returns whether it changed
+  // The first error is kept while listing keeps failing, so it is reported once
+  const failListing = useCallback(
+    (error: unknown): boolean => {
+      if (cache.snapshot.error !== null) {
+        return false
+      }
+
+      cache.snapshot = { keys: cache.snapshot.keys, loading: false, error }
+      return true
+    },
+    [cache]
+  )
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      // Synchronous adapters are listed again in getSnapshot
+      const refresh = () => {
+        if (!adapter.async) {
+          onStoreChange()
+          return
+        }
+
+        cache.version += 1
+        const version = cache.version
+
+        Promise.resolve()
+          .then(() => listKeys(adapter))
+          .then((storedKeys) => {
+            if (version === cache.version && updateKeys(storedKeys)) {
+              onStoreChange()
+            }
+          })
+          .catch((error) => {
+            if (version === cache.version && failListing(error)) {
+              onStoreChange()
+            }
+          })
+      }
+
+      // Only list again when a matching key changed (or storage was cleared)
+      const handleKeyChange = (key: string | null) => {
+        if (key === null || key.startsWith(storagePrefix)) {
+          refresh()
+        }
+      }
+
+      if (adapter.async) {
+        refresh()
+      }
+
+      const unsubscribeStore = storageStore.subscribeKeys((adapterName, key) => {
+        // Writes to other storage types can't change this listing
+        if (adapterName !== adapter.name) {
+          return
+        }
+
+        handleKeyChange(key)
+      })
+      const unsubscribeAdapter = adapter.subscribeKeys?.(handleKeyChange)
+
+      return () => {
+        unsubscribeStore()
+        unsubscribeAdapter?.()
+      }
+    },
+    [adapter, cache, storagePrefix, updateKeys, failListing]
+  )
+
+  // Server rendering and hydration list the request cookies from StorageProvider (cookie storage)
+  const serverCookies = adapter.name === 'cookie' ? context.serverCookies : undefined
+  const serverSnapshot = useMemo<IStorageKeysSnapshot>(() => {
+    if (adapter.async) {
+      return LOADING_SNAPSHOT
+    }
+
+    return serverCookies
+      ? {
+          keys: matchKeys(Object.keys(serverCookies), storagePrefix, namespacePrefix),
+          loading: false,
+          error: null,
+        }
+      : EMPTY_SNAPSHOT
+  }, [adapter, serverCookies, storagePrefix, namespacePrefix])
+
+  const getSnapshot = useCallback(() => {
+    if (typeof window === 'undefined') {
+      return serverSnapshot
+    }
+
+    if (!adapter.async) {
+      try {
+        const storedKeys = listKeys(adapter)
+        if (!isPromise<string[]>(storedKeys)) {
+          updateKeys(storedKeys)
+        }
+      } catch (error) {
+        failListing(error)
+      }
+    }
+
+    return cache.snapshot
+  }, [adapter, cache, serverSnapshot, updateKeys, failListing])
+
+  const getServerSnapshot = useCallback(() => serverSnapshot, [serverSnapshot])
+
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  // Report listing errors after rendering, once per failure
+  useEffect(() => {
+    if (snapshot.error !== null) {
+      reportError(snapshot.error)
+    }
+  }, [snapshot.error, reportError])
+
+  return {
+    keys: snapshot.keys,
+    loading: snapshot.loading,
+  }
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type {
+  IStorageSerializer,
+  IUseRichStorageOptions,
+  IUseStorageReducerOptions,
+  IUseStorageReducerReturn,
+  RichStorageValue,
+  StorageReducer,
+  StorageValue,
+} from '../interface'
+import { useStorage } from './useStorage'
+
+/**
+ * Hook for persisted reducer-driven state (e.g. wizard progress or filter panels)
+ * Every dispatched state is written through useStorage, so it supports the same storage types,
+ * namespaces, sync and cookie options, and is rehydrated on mount and on changes from other tabs
+ * Actions are applied to the latest persisted state, so dispatches from several components
+ * don't overwrite each other
+ *
+ * @template S - Type of the persisted state
+ * @template A - Type of the actions
+ * @param {string} key - Storage key
+ * @param {StorageReducer<S, A>} reducer - Reducer computing the next state
+ * @param {S} initialState - State used when nothing (valid) is stored
+ * @param {IUseStorageReducerOptions<S>} options - Optional useStorage configuration
+ * @returns {IUseStorageReducerReturn<S, A>} Persisted state and dispatch
+ *
+ * @example
+ * ```tsx
+ * type WizardAction = { type: 'next' } | { type: 'back' }
+ *
+ * function Wizard() {
+ *   const { state, dispatch } = useStorageReducer(
+ *     'wizard',
+ *     (state: { step: number }, action: WizardAction) =>
+ *       action.type === 'next' ? { step: state.step + 1 } : { step: state.step - 1 },
+ *     { step: 0 },
+ *     { storageType: 'sessionStorage' }
+ *   )
+ *
+ *   return <button onClick={() => dispatch({ type: 'next' })}>Step {state.step}</button>
+ * }
+ * ```
+ */
+export function useStorageReducer<S extends StorageValue, A>(
+  key: string,
+  reducer: StorageReducer<S, A>,
+  initialState: S,
+  options?: IUseStorageReducerOptions<S>
+): IUseStorageReducerReturn<S, A>
+export function useStorageReducer<S extends RichStorageValue, A>(
+  key: string,
+  reducer: StorageReducer<S, A>,
+  initialState: S,
+  options: IUseStorageReducerOptions<S> & IStorageSerializer<S>
+): IUseStorageReducerReturn<S, A>
+export function useStorageReducer<S extends RichStorageValue, A>(
+  key: string,
+  reducer: StorageReducer<S, A>,
+  initialState: S,
+  options?: IUseStorageReducerOptions<S>
+): IUseStorageReducerReturn<S, A> {
+  // The public signatures make sure rich states come with a serializer
+  const { value, setValue, removeValue, error, status, isFallback, loading } = useStorage<S>(key, {
+    ...options,
+    defaultValue: initialState,
+  } as IUseRichStorageOptions<S>)
+
+  const reducerRef = useRef(reducer)
+  const initialStateRef = useRef(initialState)
+
+  // Update refs
+  useEffect(() => {
+    reducerRef.current = reducer
+    initialStateRef.current = initialState
+  }, [reducer, initialState])
+
+  const dispatch = useCallback(
+    (action: A) => {
+      setValue((prevState) => reducerRef.current(prevState ?? initialStateRef.current, action))
+    },
+    [setValue]
+  )
+
+  return {
+    state: value ?? initialState,
+    dispatch,
+    reset: removeValue,
+    error,
+    status,
+    isFallback,
+    loading,
+  }
+}
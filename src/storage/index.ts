@@ -1,5 +1,70 @@
 // Export all hooks
-export { useStorage } from './hooks'
+export {
+  useStorage,
+  useStorageKeys,
+  useStorageReducer,
+  useStorageHistory,
+  usePersistedForm,
+} from './hooks'
+
+// Export context
+export { StorageProvider } from './context'
+
+// Export built-in storage adapters
+export {
+  createWebStorageAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createCookieAdapter,
+  cookieAdapter,
+  indexedDBAdapter,
+  createMemoryAdapter,
+  memoryAdapter,
+  createEncryptedAdapter,
+} from './adapters'
+
+// Export helpers
+export {
+  sweepExpiredStorage,
+  richSerializer,
+  parseCookies,
+  serializeCookie,
+  validateCookieOptions,
+  batchStorageWrites,
+} from './utils'
 
 // Export all types
-export type { StorageType, StorageValue, IUseStorageOptions, IUseStorageReturn } from './interface'
+export type {
+  StorageType,
+  StorageValue,
+  RichStorageValue,
+  IUseStorageOptions,
+  IUseRichStorageOptions,
+  IUseStorageReturn,
+  IUseStorageKeysOptions,
+  IUseStorageKeysReturn,
+  StorageReducer,
+  IUseStorageReducerOptions,
+  IUseStorageReducerReturn,
+  IUseStorageHistoryOptions,
+  IUseStorageHistoryReturn,
+  PersistedFormValues,
+  IUsePersistedFormOptions,
+  IUsePersistedFormReturn,
+  IStorageSetOptions,
+  StorageSetStateAction,
+  IStorageSerializer,
+  IStorageEncryptionOptions,
+  IStorageCookieOptions,
+  StorageErrorType,
+  StorageOperation,
+  StorageStatus,
+  IStorageLogger,
+  IStorageError,
+  IStorageEvictionOptions,
+  StorageAdapter,
+  IStorageContextValue,
+  IStorageProviderProps,
+  IRequestCookieStore,
+  StorageRequestCookies,
+} from './interface'
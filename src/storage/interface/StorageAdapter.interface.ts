@@ -0,0 +1,66 @@
+/**
+ * Storage backend used by useStorage
+ * Adapters work with raw strings - serialization is handled by the hook
+ *
+ * Methods may return promises for asynchronous backends (IndexedDB, remote storage)
+ */
+export interface StorageAdapter {
+  /**
+   * Unique adapter name (e.g. 'localStorage', 'encrypted-local')
+   * Used in warnings and to scope change notifications
+   * Must be unique per backing store - adapters with the same name share cached values
+   * and cross-tab messages
+   */
+  name: string
+
+  /**
+   * Whether reads are asynchronous
+   * Hooks using an async adapter start in a loading state (also during SSR)
+   * @default false
+   */
+  async?: boolean
+
+  /**
+   * Read a raw value (null if the key doesn't exist)
+   */
+  get: (key: string) => string | null | Promise<string | null>
+
+  /**
+   * Write a raw value
+   */
+  set: (key: string, value: string) => void | Promise<void>
+
+  /**
+   * Remove a value
+   */
+  remove: (key: string) => void | Promise<void>
+
+  /**
+   * Listen for changes made outside the current hook (e.g. other tabs)
+   * Used when the `sync` option is enabled
+   * Changes that can't be read (e.g. values that fail to decrypt) are passed to onError
+   * @returns Unsubscribe function
+   */
+  subscribe?: (
+    key: string,
+    callback: (value: string | null) => void,
+    onError?: (error: unknown) => void
+  ) => () => void
+
+  /**
+   * Listen for keys written or removed outside the current tab (key is null when cleared)
+   * Used by useStorageKeys
+   * @returns Unsubscribe function
+   */
+  subscribeKeys?: (callback: (key: string | null) => void) => () => void
+
+  /**
+   * List all keys stored in this backend
+   */
+  keys?: () => string[] | Promise<string[]>
+
+  /**
+   * Remove all values stored in this backend
+   */
+  clear?: () => void | Promise<void>
+}
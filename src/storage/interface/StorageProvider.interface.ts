@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react'
+import type {
+  StorageType,
+  IStorageCookieOptions,
+  IStorageError,
+  IStorageLogger,
+} from './useStorage.interface'
+import type { StorageAdapter } from './StorageAdapter.interface'
+
+/**
+ * Cookie store returned by Next.js `cookies()` (or any object with the same getAll method)
+ */
+export interface IRequestCookieStore {
+  getAll: () => Array<{ name: string; value: string }>
+}
+
+/**
+ * Cookies of the incoming request: a Cookie header string, a cookie store or a name-value map
+ */
+export type StorageRequestCookies = string | IRequestCookieStore | Record<string, string>
+
+/**
+ * Defaults shared by all useStorage hooks below a StorageProvider
+ */
+export interface IStorageContextValue {
+  /**
+   * Prefix added to every key as `${namespace}:${key}`
+   * Keeps keys of different apps on the same origin (e.g. micro-frontends) apart
+   */
+  namespace?: string
+
+  /**
+   * Default storage type or custom adapter
+   * @default 'localStorage'
+   */
+  storageType?: StorageType | StorageAdapter
+
+  /**
+   * Default cookie options, merged with the cookie options of each hook
+   */
+  cookieOptions?: IStorageCookieOptions
+
+  /**
+   * Default for syncing values across tabs/windows
+   * @default false
+   */
+  sync?: boolean
+
+  /**
+   * Called when any useStorage hook below the provider fails to read, parse, write, clear
+   * or poll its value, and when useStorageKeys fails to list keys
+   */
+  onError?: (error: IStorageError) => void
+
+  /**
+   * Logger for storage warnings and errors of every storage hook below the provider
+   * @default console
+   */
+  logger?: IStorageLogger
+
+  /**
+   * Cookies of the incoming request (name-value map) used to render cookie-backed values
+   * on the server and during hydration
+   */
+  serverCookies?: Record<string, string>
+}
+
+/**
+ * Props for StorageProvider
+ */
+export interface IStorageProviderProps extends Omit<IStorageContextValue, 'serverCookies'> {
+  /**
+   * Cookies of the incoming request, so server rendering and hydration match the client
+   * Pass the same value on the server and the client (e.g. as a prop from a server component)
+   * StorageProvider is a client component - in the Next.js App Router, render it from a
+   * 'use client' module and pass the Cookie header string (cookie stores can't be passed
+   * from server to client components)
+   *
+   * @example
+   * ```tsx
+   * // app/storage-provider.tsx
+   * 'use client'
+   *
+   * export function AppStorageProvider({ cookies, children }: { cookies: string; children: ReactNode }) {
+   *   return <StorageProvider cookies={cookies}>{children}</StorageProvider>
+   * }
+   *
+   * // app/layout.tsx (server component)
+   * <AppStorageProvider cookies={(await cookies()).toString()}>{children}</AppStorageProvider>
+   * ```
+   */
+  cookies?: StorageRequestCookies
+
+  /**
+   * Components using the provided defaults
+   */
+  children?: ReactNode
+}
@@ -1,6 +1,42 @@
 export type {
   StorageType,
   StorageValue,
+  RichStorageValue,
   IUseStorageOptions,
+  IUseRichStorageOptions,
   IUseStorageReturn,
+  IStorageSetOptions,
+  StorageSetStateAction,
+  IStorageSerializer,
+  IStorageEncryptionOptions,
+  IStorageCookieOptions,
+  StorageErrorType,
+  StorageOperation,
+  StorageStatus,
+  IStorageLogger,
+  IStorageError,
+  IStorageEvictionOptions,
 } from './useStorage.interface'
+
+export type { IUseStorageKeysOptions, IUseStorageKeysReturn } from './useStorageKeys.interface'
+export type {
+  StorageReducer,
+  IUseStorageReducerOptions,
+  IUseStorageReducerReturn,
+} from './useStorageReducer.interface'
+export type {
+  IUseStorageHistoryOptions,
+  IUseStorageHistoryReturn,
+} from './useStorageHistory.interface'
+export type {
+  PersistedFormValues,
+  IUsePersistedFormOptions,
+  IUsePersistedFormReturn,
+} from './usePersistedForm.interface'
+export type { StorageAdapter } from './StorageAdapter.interface'
+export type {
+  IStorageContextValue,
+  IStorageProviderProps,
+  IRequestCookieStore,
+  StorageRequestCookies,
+} from './StorageProvider.interface'
@@ -0,0 +1,90 @@
+import type { ChangeEvent } from 'react'
+import type { IStorageError, IUseStorageOptions } from './useStorage.interface'
+
+/**
+ * Form values persisted by usePersistedForm
+ */
+export type PersistedFormValues = Record<string, unknown>
+
+/**
+ * Options for usePersistedForm hook
+ * Storage options are the same as for useStorage
+ */
+export interface IUsePersistedFormOptions<
+  T extends PersistedFormValues = PersistedFormValues,
+> extends Omit<IUseStorageOptions<Partial<T>>, 'defaultValue'> {
+  /**
+   * Delay in milliseconds after the last change before the form is written to storage
+   * @default 500
+   */
+  debounceMs?: number
+
+  /**
+   * Names of fields that are never written to storage
+   */
+  exclude?: Array<keyof T & string>
+
+  /**
+   * Whether to skip fields that look sensitive (password, token, secret, card number, CVV, PIN,
+   * SSN...) and fields changed through a password input
+   * @default true
+   */
+  excludeSensitive?: boolean
+}
+
+/**
+ * Return type for usePersistedForm hook
+ */
+export interface IUsePersistedFormReturn<T extends PersistedFormValues = PersistedFormValues> {
+  /**
+   * Current form values (initial values merged with the restored snapshot)
+   */
+  values: T
+
+  /**
+   * Set the value of a single field
+   */
+  setFieldValue: <K extends keyof T>(name: K, value: T[K]) => void
+
+  /**
+   * Replace the form values, or update them from the current values
+   */
+  setValues: (values: T | ((prevValues: T) => T)) => void
+
+  /**
+   * Change handler for inputs, textareas and selects, using the element name as field name
+   * Checkboxes set a boolean, other elements their string value
+   */
+  handleChange: (
+    event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => void
+
+  /**
+   * Create a submit handler - the persisted snapshot is removed once onSubmit succeeds
+   * (resolves without throwing)
+   * The returned handler never rejects: an error thrown by onSubmit is kept in submitError
+   */
+  handleSubmit: (
+    onSubmit: (values: T) => void | Promise<void>
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>
+
+  /**
+   * Go back to the initial values and remove the persisted snapshot
+   */
+  reset: () => void
+
+  /**
+   * Whether values were restored from storage
+   */
+  isRestored: boolean
+
+  /**
+   * Error from the last write (null if it succeeded)
+   */
+  error: IStorageError | null
+
+  /**
+   * Error thrown by the last onSubmit (null if it succeeded or no submit happened yet)
+   */
+  submitError: unknown
+}
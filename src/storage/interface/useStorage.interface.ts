@@ -1,65 +1,379 @@
+import type { StorageAdapter } from './StorageAdapter.interface'
+
 /**
- * Storage type options
+ * Built-in storage type options
+ * 'memory' keeps values for the lifetime of the page without persisting them
  */
-export type StorageType = 'localStorage' | 'sessionStorage' | 'cookie'
+export type StorageType = 'localStorage' | 'sessionStorage' | 'cookie' | 'indexedDB' | 'memory'
 
 /**
- * Storage value types
+ * Storage value types (JSON values, stored without a custom serializer)
  */
 export type StorageValue = string | number | boolean | unknown[] | Record<string, unknown> | null
 
+/**
+ * Storage value types JSON can't represent as well
+ * Only accepted with a serializer and deserializer that support them (e.g. richSerializer)
+ */
+export type RichStorageValue =
+  StorageValue | bigint | Date | Map<unknown, unknown> | Set<unknown> | undefined
+
+/**
+ * Custom serialization for stored values
+ */
+export interface IStorageSerializer<T extends RichStorageValue = RichStorageValue> {
+  /**
+   * Convert a value to the string written to storage
+   */
+  serializer: (value: T) => string
+
+  /**
+   * Convert a stored string back to a value
+   * May throw for malformed data, which falls back to defaultValue
+   */
+  deserializer: (rawValue: string) => unknown
+}
+
+/**
+ * Encryption-at-rest options (AES-GCM via Web Crypto)
+ * Provide either a CryptoKey or a passphrase to derive one from
+ */
+export interface IStorageEncryptionOptions {
+  /**
+   * AES-GCM key used to encrypt and decrypt values
+   * Takes precedence over `passphrase`
+   */
+  key?: CryptoKey
+
+  /**
+   * Passphrase the AES-GCM key is derived from (PBKDF2 with SHA-256)
+   */
+  passphrase?: string
+
+  /**
+   * Salt used for key derivation
+   * Use a per-application (or per-user) value in production
+   * @default 'react-hooks-core'
+   */
+  salt?: string
+
+  /**
+   * PBKDF2 iterations used for key derivation
+   * @default 100000
+   */
+  iterations?: number
+
+  /**
+   * Public id of the key, added to the adapter name (`${name}:encrypted:${id}`)
+   * Hooks encrypting the same storage with different keys need different ids, as adapters
+   * with the same name share cached values - never derive it from the key or passphrase
+   */
+  id?: string
+}
+
+/**
+ * Cookie attributes used by cookie storage and serializeCookie
+ * Values over the ~4KB cookie limit are split across several cookies by cookie storage
+ */
+export interface IStorageCookieOptions {
+  /**
+   * Cookie expiration in days (0 for a session cookie)
+   * Ignored when maxAge is set
+   * @default 365
+   */
+  expires?: number
+
+  /**
+   * Cookie lifetime in seconds (Max-Age attribute, takes precedence over expires)
+   */
+  maxAge?: number
+
+  /**
+   * Cookie path
+   * @default '/'
+   */
+  path?: string
+
+  /**
+   * Cookie domain
+   */
+  domain?: string
+
+  /**
+   * Secure cookie (HTTPS only)
+   * @default false
+   */
+  secure?: boolean
+
+  /**
+   * HttpOnly cookie attribute (for cookies set by the server with serializeCookie)
+   * HttpOnly cookies are invisible to JavaScript, so useStorage can only read them from
+   * StorageProvider request cookies and can't write them in the browser
+   * @default false
+   */
+  httpOnly?: boolean
+
+  /**
+   * SameSite cookie attribute
+   * 'None' requires secure
+   * @default 'Lax'
+   */
+  sameSite?: 'Strict' | 'Lax' | 'None'
+
+  /**
+   * Partitioned cookie attribute (CHIPS) - stores the cookie per top-level site
+   * Requires secure
+   * @default false
+   */
+  partitioned?: boolean
+
+  /**
+   * Priority cookie attribute (Chromium) - lower priority cookies are evicted first
+   */
+  priority?: 'Low' | 'Medium' | 'High'
+}
+
+/**
+ * Storage error categories
+ */
+export type StorageErrorType =
+  'quotaExceeded' | 'readFailed' | 'parseFailed' | 'writeFailed' | 'clearFailed' | 'pollFailed'
+
+/**
+ * Storage operations that can fail
+ * 'parse' covers deserialization, migration and validation of a stored value
+ */
+export type StorageOperation = 'read' | 'parse' | 'write' | 'clear' | 'poll'
+
+/**
+ * Loading and error state of a stored value
+ * 'idle' while the value is still being loaded, 'ready' once it is available,
+ * 'error' when the last read, write or clear failed
+ */
+export type StorageStatus = 'idle' | 'ready' | 'error'
+
+/**
+ * Error reported when a value could not be read, parsed, written or cleared
+ */
+export interface IStorageError {
+  /**
+   * Error category
+   */
+  type: StorageErrorType
+
+  /**
+   * Operation that failed
+   */
+  operation: StorageOperation
+
+  /**
+   * Storage key the error occurred for
+   */
+  key: string
+
+  /**
+   * Human-readable error message
+   */
+  message: string
+
+  /**
+   * Original error thrown by the storage backend
+   */
+  cause: unknown
+}
+
+/**
+ * Logger receiving storage warnings and errors (console by default)
+ */
+export interface IStorageLogger {
+  /**
+   * Log a warning with the error that caused it, if any
+   */
+  warn: (message: string, ...details: unknown[]) => void
+}
+
+/**
+ * Eviction options used to free space when the storage quota is exceeded
+ */
+export interface IStorageEvictionOptions {
+  /**
+   * Eviction policy
+   * 'lru' removes the least recently read or written keys of the namespace first
+   * @default 'lru'
+   */
+  policy?: 'lru'
+
+  /**
+   * Group of keys that may be evicted for each other (e.g. 'api-cache')
+   * Only keys used by hooks with the same namespace are evicted
+   */
+  namespace: string
+}
+
 /**
  * Options for useStorage hook
  */
-export interface IUseStorageOptions<T extends StorageValue = StorageValue> {
+export interface IUseStorageOptions<T extends RichStorageValue = StorageValue> {
   /**
    * Storage type to use
-   * @default 'localStorage'
+   * Accepts a built-in storage type or a custom StorageAdapter
+   * @default StorageProvider storageType, or 'localStorage'
+   */
+  storageType?: StorageType | StorageAdapter
+
+  /**
+   * Prefix added to the key as `${namespace}:${key}`
+   * Overrides the StorageProvider namespace - pass an empty string to use the key as-is
    */
-  storageType?: StorageType
+  namespace?: string
 
   /**
    * Default value if key doesn't exist
+   * With indexedDB, this is also the value while the stored value is loading
    * @default null
    */
   defaultValue?: T
 
   /**
    * Whether to sync with other tabs/windows
-   * Only works with localStorage
-   * @default false
+   * Uses BroadcastChannel for every storage type, falling back to the `storage` event
+   * (localStorage only)
+   * sessionStorage values are only mirrored into sibling tabs - tabs opened from the same tab
+   * (or duplicated), which share a session id kept in sessionStorage
+   * @default StorageProvider sync, or false
    */
   sync?: boolean
 
+  /**
+   * Whether to poll storage every 2 seconds for writes made outside useStorage
+   * (e.g. direct localStorage.setItem calls or other libraries)
+   * Writes made through useStorage update other hooks immediately without polling
+   * @default false
+   */
+  poll?: boolean
+
+  /**
+   * Delay writes until setValue hasn't been called for this many milliseconds
+   * The value updates immediately, only writing to storage (and syncing other tabs) is delayed
+   * Useful for values bound to text inputs or sliders
+   */
+  writeDebounceMs?: number
+
+  /**
+   * Write at most once per this many milliseconds (the last value of each interval is written)
+   * The value updates immediately, only writing to storage (and syncing other tabs) is delayed
+   * Combined with writeDebounceMs, it limits how long a write can be postponed
+   */
+  writeThrottleMs?: number
+
   /**
    * Cookie-specific options
+   * Merged with the StorageProvider cookie options
+   */
+  cookieOptions?: IStorageCookieOptions
+
+  /**
+   * Convert a value to the string written to storage
+   * @default JSON.stringify
+   */
+  serializer?: (value: T) => string
+
+  /**
+   * Convert a stored string back to a value
+   * The default parses JSON and returns non-JSON strings as-is (for values written by other code)
+   * Spread `richSerializer` to round-trip Date, Map, Set, BigInt and undefined
+   */
+  deserializer?: (rawValue: string) => unknown
+
+  /**
+   * Encrypt values at rest with AES-GCM
+   * Values are encrypted in setValue and decrypted on read (including synced values),
+   * which makes reads asynchronous - `loading` is true until the first value is decrypted
+   */
+  encryption?: IStorageEncryptionOptions
+
+  /**
+   * Type guard checked against every value read from storage
+   * Values that fail the check fall back to defaultValue
+   *
+   * @example
+   * ```ts
+   * validate: (value): value is User => typeof value === 'object' && value !== null && 'id' in value
+   * ```
+   */
+  validate?: (value: unknown) => value is T
+
+  /**
+   * Parse function applied to every value read from storage
+   * Should return the typed value or throw if the value is invalid, which makes it
+   * compatible with schema libraries (e.g. `(value) => userSchema.parse(value)`)
+   * Takes precedence over `validate`
+   */
+  parse?: (value: unknown) => T
+
+  /**
+   * Schema version of the stored value
+   * When set, values are stored with their version and older values are passed
+   * through `migrate` on read. Values stored before versioning was enabled are version 0
+   */
+  version?: number
+
+  /**
+   * Migrate a value stored with an older version to the current shape
+   * Runs on every read of an outdated value (initial load, sync and polling)
+   * Without it, outdated values fall back to defaultValue
+   *
+   * @example
+   * ```ts
+   * migrate: (oldValue, oldVersion) =>
+   *   oldVersion < 2 ? { ...(oldValue as object), theme: 'light' } : (oldValue as Settings)
+   * ```
+   */
+  migrate?: (oldValue: unknown, oldVersion: number) => T
+
+  /**
+   * Time-to-live in milliseconds for values written by setValue
+   * The expiry timestamp is stored alongside the value - expired values read back
+   * as defaultValue and are removed from storage
+   * Can be overridden per write with `setValue(value, { ttl })`
+   */
+  ttl?: number
+
+  /**
+   * Callback when a stored value fails validation or migration
+   * Receives the error and the raw stored string
+   */
+  onValidationError?: (error: unknown, rawValue: string) => void
+
+  /**
+   * Evict least recently used keys of a namespace when a write exceeds the storage quota
+   * Access times are tracked in storage (synchronous storage types only)
+   *
+   * @example
+   * ```ts
+   * eviction: { policy: 'lru', namespace: 'api-cache' }
+   * ```
+   */
+  eviction?: IStorageEvictionOptions
+
+  /**
+   * Callback when a write exceeds the storage quota (after eviction, if enabled)
+   * Free up space and return true to retry the write once
+   */
+  onQuotaExceeded?: (error: IStorageError) => boolean | void
+
+  /**
+   * Callback when reading, parsing, writing, clearing or polling the value fails
+   * Overrides the StorageProvider error handler
+   */
+  onError?: (error: IStorageError) => void
+
+  /**
+   * Logger for storage warnings and errors
+   * Overrides the StorageProvider logger
+   * @default console
    */
-  cookieOptions?: {
-    /**
-     * Cookie expiration in days
-     * @default 365
-     */
-    expires?: number
-    /**
-     * Cookie path
-     * @default '/'
-     */
-    path?: string
-    /**
-     * Cookie domain
-     */
-    domain?: string
-    /**
-     * Secure cookie (HTTPS only)
-     * @default false
-     */
-    secure?: boolean
-    /**
-     * SameSite cookie attribute
-     * @default 'Lax'
-     */
-    sameSite?: 'Strict' | 'Lax' | 'None'
-  }
+  logger?: IStorageLogger
 
   /**
    * Callback when value changes
@@ -67,10 +381,34 @@ export interface IUseStorageOptions<T extends StorageValue = StorageValue> {
   onChange?: (value: T | null) => void
 }
 
+/**
+ * Options for values JSON can't represent (Date, Map, Set, bigint, undefined)
+ * A serializer and deserializer that support them are required
+ */
+export type IUseRichStorageOptions<T extends RichStorageValue> = IUseStorageOptions<T> &
+  IStorageSerializer<T>
+
+/**
+ * Options for a single setValue call
+ */
+export interface IStorageSetOptions {
+  /**
+   * Time-to-live in milliseconds for this value
+   * Overrides the hook's `ttl` option, use 0 to store the value without expiry
+   */
+  ttl?: number
+}
+
+/**
+ * New value for setValue, or an updater function receiving the latest persisted value
+ */
+export type StorageSetStateAction<T extends RichStorageValue = StorageValue> =
+  T | null | ((prevValue: T | null) => T | null)
+
 /**
  * Return type for useStorage hook
  */
-export interface IUseStorageReturn<T extends StorageValue = StorageValue> {
+export interface IUseStorageReturn<T extends RichStorageValue = StorageValue> {
   /**
    * Current stored value
    */
@@ -78,21 +416,59 @@ export interface IUseStorageReturn<T extends StorageValue = StorageValue> {
 
   /**
    * Set value in storage
+   * Updater functions receive the latest persisted value, read from storage at write time,
+   * so updates from several components don't overwrite each other
    */
-  setValue: (value: T | null) => void
+  setValue: (value: StorageSetStateAction<T>, options?: IStorageSetOptions) => void
 
   /**
    * Remove value from storage
    */
   removeValue: () => void
 
+  /**
+   * Write a value delayed by writeDebounceMs/writeThrottleMs now
+   * Delayed writes are also flushed on unmount and when the page is hidden (`pagehide`)
+   */
+  flush: () => void
+
   /**
    * Check if value exists in storage
    */
   hasValue: boolean
 
   /**
-   * Clear all storage (only for localStorage/sessionStorage)
+   * Remove the keys owned by this hook: every key of its namespace, or only its own key
+   * when no namespace is set (works for every storage type, including cookies)
    */
   clear: () => void
+
+  /**
+   * Remove every key of the storage type on the origin, including keys written by other code
+   */
+  clearAll: () => void
+
+  /**
+   * Error from the last failed operation (null when the value was read and written successfully)
+   * When a write fails, value keeps the last persisted value
+   * When the stored value can't be read or parsed, value is defaultValue
+   */
+  error: IStorageError | null
+
+  /**
+   * Whether the value is still loading ('idle'), available ('ready') or failed ('error')
+   */
+  status: StorageStatus
+
+  /**
+   * Whether values are kept in memory because the requested Web Storage is unavailable
+   * (e.g. Safari private mode or sandboxed iframes) - values won't survive a reload
+   */
+  isFallback: boolean
+
+  /**
+   * Whether the stored value is still being loaded
+   * Only true for asynchronous storage types (indexedDB) until the first read completes
+   */
+  loading: boolean
 }
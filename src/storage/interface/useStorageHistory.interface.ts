@@ -0,0 +1,55 @@
+import type {
+  IUseStorageOptions,
+  IUseStorageReturn,
+  RichStorageValue,
+  StorageValue,
+} from './useStorage.interface'
+
+/**
+ * Options for useStorageHistory hook
+ * Same as useStorage options, without delayed writes - the value and its history are written
+ * together in one batch, and batched writes are never delayed
+ */
+export interface IUseStorageHistoryOptions<T extends RichStorageValue = StorageValue> extends Omit<
+  IUseStorageOptions<T>,
+  'writeDebounceMs' | 'writeThrottleMs'
+> {
+  /**
+   * Maximum number of past (and future) values kept
+   * Older values are dropped first
+   * @default 50
+   */
+  maxDepth?: number
+}
+
+/**
+ * Return type for useStorageHistory hook
+ */
+export interface IUseStorageHistoryReturn<
+  T extends RichStorageValue = StorageValue,
+> extends IUseStorageReturn<T> {
+  /**
+   * Go back to the previous value
+   */
+  undo: () => void
+
+  /**
+   * Go forward to the value that was undone last
+   */
+  redo: () => void
+
+  /**
+   * Whether there is a previous value to go back to
+   */
+  canUndo: boolean
+
+  /**
+   * Whether there is an undone value to go forward to
+   */
+  canRedo: boolean
+
+  /**
+   * Forget all past and future values, keeping the current value
+   */
+  clearHistory: () => void
+}
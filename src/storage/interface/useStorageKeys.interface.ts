@@ -0,0 +1,55 @@
+import type { IStorageError, IStorageLogger, StorageType } from './useStorage.interface'
+import type { StorageAdapter } from './StorageAdapter.interface'
+
+/**
+ * Options for useStorageKeys hook
+ */
+export interface IUseStorageKeysOptions {
+  /**
+   * Only list keys starting with this prefix (e.g. 'draft:')
+   * @default '' (all keys)
+   */
+  prefix?: string
+
+  /**
+   * Storage type or custom adapter to list keys from
+   * @default StorageProvider storageType, or 'localStorage'
+   */
+  storageType?: StorageType | StorageAdapter
+
+  /**
+   * Namespace the keys belong to - only keys of the namespace are listed, without the
+   * `${namespace}:` prefix, so they can be passed to useStorage as-is
+   * Overrides the StorageProvider namespace - pass an empty string to list keys as stored
+   */
+  namespace?: string
+
+  /**
+   * Callback when listing the keys fails (a `read` error whose key is the listed prefix)
+   * Overrides the StorageProvider error handler
+   */
+  onError?: (error: IStorageError) => void
+
+  /**
+   * Logger for listing errors
+   * Overrides the StorageProvider logger
+   * @default console
+   */
+  logger?: IStorageLogger
+}
+
+/**
+ * Return type for useStorageKeys hook
+ */
+export interface IUseStorageKeysReturn {
+  /**
+   * Matching keys, sorted alphabetically
+   * Updated on writes and removals made through useStorage and on changes from other tabs
+   */
+  keys: string[]
+
+  /**
+   * Whether the keys are still being listed (asynchronous storage types such as indexedDB)
+   */
+  loading: boolean
+}
@@ -0,0 +1,61 @@
+import type {
+  IStorageError,
+  IUseStorageOptions,
+  RichStorageValue,
+  StorageStatus,
+  StorageValue,
+} from './useStorage.interface'
+
+/**
+ * Reducer computing the next persisted state from the current state and an action
+ */
+export type StorageReducer<S extends RichStorageValue, A> = (state: S, action: A) => S
+
+/**
+ * Options for useStorageReducer hook
+ * Same as useStorage options - the initial state is used as the default value
+ */
+export type IUseStorageReducerOptions<S extends RichStorageValue = StorageValue> = Omit<
+  IUseStorageOptions<S>,
+  'defaultValue'
+>
+
+/**
+ * Return type for useStorageReducer hook
+ */
+export interface IUseStorageReducerReturn<S extends RichStorageValue, A> {
+  /**
+   * Current state (the initial state if nothing valid is stored)
+   */
+  state: S
+
+  /**
+   * Apply an action to the latest persisted state and store the result
+   */
+  dispatch: (action: A) => void
+
+  /**
+   * Remove the stored state, going back to the initial state
+   */
+  reset: () => void
+
+  /**
+   * Error from the last failed read, parse, write or clear (null if there is none)
+   */
+  error: IStorageError | null
+
+  /**
+   * Whether the state is still loading ('idle'), available ('ready') or failed ('error')
+   */
+  status: StorageStatus
+
+  /**
+   * Whether state is kept in memory because the requested Web Storage is unavailable
+   */
+  isFallback: boolean
+
+  /**
+   * Whether the stored state is still being loaded (asynchronous storage types only)
+   */
+  loading: boolean
+}
@@ -0,0 +1,373 @@
+import type {
+  IRequestCookieStore,
+  IStorageCookieOptions,
+  StorageRequestCookies,
+} from '../interface'
+
+/**
+ * Prefix of the main cookie value when a value is split across several cookies
+ * The main cookie holds `__rhc_chunks:<count>`, the parts are stored as `<name>.0`, `<name>.1`, ...
+ */
+const CHUNK_MARKER = '__rhc_chunks:'
+
+/**
+ * Maximum size of a cookie's name and encoded value
+ * Browsers allow about 4096 bytes per cookie, attributes excluded
+ */
+const MAX_COOKIE_SIZE = 4000
+
+/**
+ * Parse a cookie header (or document.cookie) into a name-value map
+ * Values are URI-decoded - if a name appears more than once, the first value wins
+ */
+export function parseCookies(header: string): Record<string, string> {
+  const cookies: Record<string, string> = {}
+
+  header.split(';').forEach((part) => {
+    const cookie = part.trim()
+    if (cookie.length === 0) {
+      return
+    }
+
+    const eqPos = cookie.indexOf('=')
+    const name = eqPos > -1 ? cookie.substring(0, eqPos) : cookie
+    const rawValue = eqPos > -1 ? cookie.substring(eqPos + 1) : ''
+
+    if (name in cookies) {
+      return
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(rawValue)
+    } catch {
+      // Keep malformed values as-is
+      cookies[name] = rawValue
+    }
+  })
+
+  return cookies
+}
+
+function getChunkName(name: string, index: number): string {
+  return `${name}.${index}`
+}
+
+/**
+ * Get the number of chunks a cookie value was split into (0 if it wasn't split)
+ */
+function getChunkCount(value: string | undefined): number {
+  if (value === undefined || !value.startsWith(CHUNK_MARKER)) {
+    return 0
+  }
+
+  const count = Number(value.substring(CHUNK_MARKER.length))
+  return Number.isInteger(count) && count > 0 ? count : 0
+}
+
+/**
+ * Read a cookie from a parsed cookie map, joining values split across several cookies
+ */
+function readCookie(cookies: Record<string, string>, name: string): string | null {
+  if (!(name in cookies)) {
+    return null
+  }
+
+  const chunkCount = getChunkCount(cookies[name])
+  if (chunkCount === 0) {
+    return cookies[name]
+  }
+
+  let value = ''
+  for (let i = 0; i < chunkCount; i++) {
+    const chunk = cookies[getChunkName(name, i)]
+    // A missing part means the value is incomplete
+    if (chunk === undefined) {
+      return null
+    }
+    value += chunk
+  }
+
+  return value
+}
+
+/**
+ * Check if a cookie holds part of a value split across several cookies
+ */
+function isChunkCookie(cookies: Record<string, string>, name: string): boolean {
+  const match = /^(.+)\.\d+$/.exec(name)
+  return match !== null && getChunkCount(cookies[match[1]]) > 0
+}
+
+/**
+ * Split a value so that every cookie stays below the browser size limit
+ */
+function splitCookieValue(name: string, value: string): string[] {
+  if (name.length + encodeURIComponent(value).length <= MAX_COOKIE_SIZE) {
+    return [value]
+  }
+
+  // Leave room for the longest chunk name
+  const budget = MAX_COOKIE_SIZE - getChunkName(name, 999).length
+  const chunks: string[] = []
+  let chunk = ''
+  let chunkSize = 0
+
+  // Split by code point, so encoded characters are never cut in half
+  for (const char of value) {
+    const charSize = encodeURIComponent(char).length
+    if (chunkSize + charSize > budget) {
+      chunks.push(chunk)
+      chunk = ''
+      chunkSize = 0
+    }
+    chunk += char
+    chunkSize += charSize
+  }
+  chunks.push(chunk)
+
+  return chunks
+}
+
+/**
+ * Get cookie value
+ * Values split across several cookies are joined
+ */
+export function getCookie(name: string): string | null {
+  if (typeof document === 'undefined') {
+    return null
+  }
+
+  return readCookie(parseCookies(document.cookie), name)
+}
+
+/**
+ * Get the names of all cookies visible to the document
+ * Cookies holding parts of a split value are not listed
+ */
+export function getCookieNames(): string[] {
+  if (typeof document === 'undefined') {
+    return []
+  }
+
+  const cookies = parseCookies(document.cookie)
+  return Object.keys(cookies).filter((name) => !isChunkCookie(cookies, name))
+}
+
+/**
+ * Read request cookies passed to StorageProvider into a name-value map
+ * Accepts a Cookie header string, a Next.js `cookies()` store or a plain object
+ * Values split across several cookies are joined
+ */
+export function readRequestCookies(source: StorageRequestCookies): Record<string, string> {
+  let cookies: Record<string, string>
+
+  if (typeof source === 'string') {
+    cookies = parseCookies(source)
+  } else if (isRequestCookieStore(source)) {
+    cookies = {}
+    source.getAll().forEach(({ name, value }) => {
+      if (!(name in cookies)) {
+        cookies[name] = value
+      }
+    })
+  } else {
+    cookies = { ...source }
+  }
+
+  const joined: Record<string, string> = {}
+  Object.keys(cookies).forEach((name) => {
+    const value = readCookie(cookies, name)
+    if (value !== null && !isChunkCookie(cookies, name)) {
+      joined[name] = value
+    }
+  })
+
+  return joined
+}
+
+function isRequestCookieStore(source: StorageRequestCookies): source is IRequestCookieStore {
+  return typeof source === 'object' && typeof source.getAll === 'function'
+}
+
+/**
+ * Check if a cookie name is valid
+ * Names can't be empty or contain whitespace, control characters, `=`, `;` or `,`
+ */
+function isValidCookieName(name: string): boolean {
+  if (name.length === 0 || /[\s=;,]/.test(name)) {
+    return false
+  }
+
+  for (let i = 0; i < name.length; i++) {
+    const code = name.charCodeAt(i)
+    if (code < 0x20 || code === 0x7f) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Find cookie option combinations that browsers reject
+ *
+ * @param {IStorageCookieOptions} options - Cookie attributes
+ * @returns {string[]} Problems found (empty if the options are valid)
+ */
+export function validateCookieOptions(options?: IStorageCookieOptions): string[] {
+  const { secure = false, sameSite, partitioned = false, maxAge } = options || {}
+  const problems: string[] = []
+
+  if (sameSite === 'None' && !secure) {
+    problems.push('SameSite=None cookies must be secure')
+  }
+
+  if (partitioned && !secure) {
+    problems.push('Partitioned cookies must be secure')
+  }
+
+  if (maxAge !== undefined && !Number.isFinite(maxAge)) {
+    problems.push('maxAge must be a finite number of seconds')
+  }
+
+  return problems
+}
+
+/**
+ * Serialize a cookie into a `Set-Cookie` header value (also usable for document.cookie)
+ * The value is URI-encoded, matching parseCookies
+ * Invalid names and option combinations (e.g. SameSite=None without secure) throw a TypeError
+ *
+ * @param {string} name - Cookie name
+ * @param {string} value - Cookie value
+ * @param {IStorageCookieOptions} options - Cookie attributes
+ * @returns {string} Serialized cookie
+ *
+ * @example
+ * ```ts
+ * response.headers.append(
+ *   'Set-Cookie',
+ *   serializeCookie('session', token, { httpOnly: true, secure: true, maxAge: 3600 })
+ * )
+ * ```
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options?: IStorageCookieOptions
+): string {
+  if (!isValidCookieName(name)) {
+    throw new TypeError(`Invalid cookie name "${name}"`)
+  }
+
+  const [problem] = validateCookieOptions(options)
+  if (problem !== undefined) {
+    throw new TypeError(`Invalid options for cookie "${name}": ${problem}`)
+  }
+
+  const {
+    expires = 365,
+    maxAge,
+    path = '/',
+    domain,
+    secure = false,
+    httpOnly = false,
+    sameSite = 'Lax',
+    partitioned = false,
+    priority,
+  } = options || {}
+
+  let cookieString = `${name}=${encodeURIComponent(value)}`
+
+  if (maxAge !== undefined) {
+    // Max-Age takes precedence over Expires
+    cookieString += `; Max-Age=${Math.floor(maxAge)}`
+  } else if (expires !== 0) {
+    // expires = 0 creates a session cookie, negative values expire the cookie immediately
+    const date = new Date(Date.now() + expires * 24 * 60 * 60 * 1000)
+    cookieString += `; Expires=${date.toUTCString()}`
+  }
+
+  cookieString += `; Path=${path}`
+
+  if (domain) {
+    cookieString += `; Domain=${domain}`
+  }
+
+  if (secure) {
+    cookieString += '; Secure'
+  }
+
+  if (httpOnly) {
+    cookieString += '; HttpOnly'
+  }
+
+  cookieString += `; SameSite=${sameSite}`
+
+  if (partitioned) {
+    cookieString += '; Partitioned'
+  }
+
+  if (priority) {
+    cookieString += `; Priority=${priority}`
+  }
+
+  return cookieString
+}
+
+/**
+ * Options that expire a cookie with the same path and domain
+ */
+function getRemoveOptions(options?: IStorageCookieOptions): IStorageCookieOptions {
+  return { ...options, expires: -1, maxAge: undefined, httpOnly: false }
+}
+
+/**
+ * Set cookie value
+ * Values over the browser size limit are split across several cookies
+ */
+export function setCookie(name: string, value: string, options?: IStorageCookieOptions): void {
+  if (typeof document === 'undefined') {
+    return
+  }
+
+  if (options?.httpOnly) {
+    throw new TypeError(`Cookie "${name}" is httpOnly and can't be set from the browser`)
+  }
+
+  const previousChunkCount = getChunkCount(parseCookies(document.cookie)[name])
+  const chunks = splitCookieValue(name, value)
+
+  if (chunks.length === 1) {
+    document.cookie = serializeCookie(name, value, options)
+  } else {
+    chunks.forEach((chunk, index) => {
+      document.cookie = serializeCookie(getChunkName(name, index), chunk, options)
+    })
+    document.cookie = serializeCookie(name, `${CHUNK_MARKER}${chunks.length}`, options)
+  }
+
+  // Remove parts left over from a longer previous value
+  const chunkCount = chunks.length === 1 ? 0 : chunks.length
+  for (let i = chunkCount; i < previousChunkCount; i++) {
+    document.cookie = serializeCookie(getChunkName(name, i), '', getRemoveOptions(options))
+  }
+}
+
+/**
+ * Remove cookie (including the parts of a split value)
+ */
+export function removeCookie(name: string, options?: IStorageCookieOptions): void {
+  if (typeof document === 'undefined') {
+    return
+  }
+
+  const removeOptions = getRemoveOptions(options)
+  const chunkCount = getChunkCount(parseCookies(document.cookie)[name])
+
+  for (let i = 0; i < chunkCount; i++) {
+    document.cookie = serializeCookie(getChunkName(name, i), '', removeOptions)
+  }
+
+  document.cookie = serializeCookie(name, '', removeOptions)
+}
@@ -0,0 +1,30 @@
+export { isIndexedDBAvailable, idbGet, idbSet, idbRemove, idbKeys, idbClear } from './indexedDB'
+export {
+  parseCookies,
+  serializeCookie,
+  validateCookieOptions,
+  readRequestCookies,
+  getCookie,
+  getCookieNames,
+  setCookie,
+  removeCookie,
+} from './cookies'
+export { isPromise } from './isPromise'
+export { storageStore } from './storageStore'
+export type { IStorageSnapshot } from './storageStore'
+export { storageSyncChannel } from './storageSyncChannel'
+export { createEnvelope, readEnvelope, isEnvelopeExpired } from './storageEnvelope'
+export type { IStorageEnvelope, IStorageEnvelopeMeta } from './storageEnvelope'
+export { sweepExpiredStorage } from './sweepExpiredStorage'
+export { richSerializer } from './richSerializer'
+export {
+  isWebCryptoAvailable,
+  deriveEncryptionKey,
+  isEncryptedString,
+  encryptString,
+  decryptString,
+} from './storageCrypto'
+export { isQuotaExceededError, createStorageError } from './storageError'
+export { recordAccess, removeAccess, evictLeastRecentlyUsed } from './lruTracker'
+export { storageBatch, batchStorageWrites } from './storageBatch'
+export type { IStagedStorageWrite } from './storageBatch'
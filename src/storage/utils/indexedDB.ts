@@ -0,0 +1,109 @@
+const DB_NAME = 'react-hooks-core'
+const STORE_NAME = 'storage'
+const DB_VERSION = 1
+
+/**
+ * Cached database connection shared by all useStorage hooks
+ * Opening IndexedDB is expensive, so the connection is reused
+ */
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Check if IndexedDB is available in the current environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Open (or reuse) the key-value database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (dbPromise === null) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME)
+        }
+      }
+
+      request.onsuccess = () => {
+        const db = request.result
+        // Drop the cached connection if the browser closes it (e.g. storage cleared)
+        db.onclose = () => {
+          dbPromise = null
+        }
+        resolve(db)
+      }
+
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+/**
+ * Run a single request against the object store and resolve with its result
+ */
+async function runRequest<R>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> {
+  const db = await openDatabase()
+
+  return new Promise<R>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? request.error)
+    transaction.onabort = () => reject(transaction.error ?? request.error)
+  })
+}
+
+/**
+ * Read a raw value from IndexedDB
+ */
+export async function idbGet(key: string): Promise<string | null> {
+  const result = await runRequest<unknown>('readonly', (store) => store.get(key))
+  return typeof result === 'string' ? result : null
+}
+
+/**
+ * Write a raw value to IndexedDB
+ */
+export async function idbSet(key: string, value: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(value, key))
+}
+
+/**
+ * Remove a value from IndexedDB
+ */
+export async function idbRemove(key: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(key))
+}
+
+/**
+ * List all keys stored in IndexedDB
+ */
+export async function idbKeys(): Promise<string[]> {
+  const keys = await runRequest('readonly', (store) => store.getAllKeys())
+  return keys.filter((key): key is string => typeof key === 'string')
+}
+
+/**
+ * Remove all values written by useStorage to IndexedDB
+ */
+export async function idbClear(): Promise<void> {
+  await runRequest('readwrite', (store) => store.clear())
+}
@@ -0,0 +1,8 @@
+/**
+ * Check if a value returned by a storage adapter is a promise
+ */
+export function isPromise<T>(value: unknown): value is Promise<T> {
+  return (
+    typeof value === 'object' && value !== null && typeof (value as Promise<T>).then === 'function'
+  )
+}
@@ -0,0 +1,112 @@
+import type { StorageAdapter } from '../interface'
+import { isPromise } from './isPromise'
+
+/**
+ * Prefix of the metadata key holding last-access times for a namespace
+ */
+const LRU_META_PREFIX = '__rhc_lru:'
+
+type AccessTimes = Record<string, number>
+
+function getMetaKey(namespace: string): string {
+  return `${LRU_META_PREFIX}${namespace}`
+}
+
+/**
+ * Read last-access times for a namespace
+ * Only synchronous adapters are supported - async adapters report no entries
+ */
+function readAccessTimes(adapter: StorageAdapter, namespace: string): AccessTimes {
+  try {
+    const rawValue = adapter.get(getMetaKey(namespace))
+    if (rawValue === null || isPromise(rawValue)) {
+      return {}
+    }
+
+    const parsed = JSON.parse(rawValue)
+    return typeof parsed === 'object' && parsed !== null ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeAccessTimes(adapter: StorageAdapter, namespace: string, times: AccessTimes): void {
+  try {
+    const result = adapter.set(getMetaKey(namespace), JSON.stringify(times))
+    if (isPromise(result)) {
+      result.catch(() => {
+        // Metadata is best-effort
+      })
+    }
+  } catch {
+    // Metadata is best-effort - a full storage must not break the actual write
+  }
+}
+
+/**
+ * Record that a key in a namespace was read or written
+ */
+export function recordAccess(adapter: StorageAdapter, namespace: string, key: string): void {
+  if (adapter.async) {
+    return
+  }
+
+  const times = readAccessTimes(adapter, namespace)
+  times[key] = Date.now()
+  writeAccessTimes(adapter, namespace, times)
+}
+
+/**
+ * Stop tracking a removed key
+ */
+export function removeAccess(adapter: StorageAdapter, namespace: string, key: string): void {
+  if (adapter.async) {
+    return
+  }
+
+  const times = readAccessTimes(adapter, namespace)
+  if (key in times) {
+    delete times[key]
+    writeAccessTimes(adapter, namespace, times)
+  }
+}
+
+/**
+ * Remove the least recently used key of a namespace to free space
+ *
+ * @param {StorageAdapter} adapter - Adapter holding the namespace
+ * @param {string} namespace - Eviction namespace
+ * @param {ReadonlySet<string>} exclude - Keys that must not be evicted (the key being written
+ * and keys evicted before, whose removal may not have stuck)
+ * @returns {string | null} Evicted key, or null if nothing could be evicted
+ */
+export function evictLeastRecentlyUsed(
+  adapter: StorageAdapter,
+  namespace: string,
+  exclude: ReadonlySet<string>
+): string | null {
+  if (adapter.async) {
+    return null
+  }
+
+  const times = readAccessTimes(adapter, namespace)
+  const candidates = Object.keys(times)
+    .filter((key) => !exclude.has(key))
+    .sort((a, b) => times[a] - times[b])
+
+  const evictedKey = candidates[0]
+  if (evictedKey === undefined) {
+    return null
+  }
+
+  try {
+    adapter.remove(evictedKey)
+  } catch {
+    // Fall through - the key is dropped from tracking either way
+  }
+
+  delete times[evictedKey]
+  writeAccessTimes(adapter, namespace, times)
+
+  return evictedKey
+}
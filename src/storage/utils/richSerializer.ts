@@ -0,0 +1,98 @@
+import type { IStorageSerializer, RichStorageValue } from '../interface'
+
+/**
+ * Property marking a tagged (non-JSON) value in serialized output
+ */
+const TYPE_TAG = '__rhcType'
+
+type TaggedValue =
+  | { [TYPE_TAG]: 'Date'; value: string }
+  | { [TYPE_TAG]: 'Map'; value: [unknown, unknown][] }
+  | { [TYPE_TAG]: 'Set'; value: unknown[] }
+  | { [TYPE_TAG]: 'BigInt'; value: string }
+  | { [TYPE_TAG]: 'undefined' }
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  return typeof value === 'object' && value !== null && TYPE_TAG in value
+}
+
+/**
+ * Convert values JSON cannot represent into tagged objects
+ */
+function tag(value: unknown): unknown {
+  if (value === undefined) {
+    return { [TYPE_TAG]: 'undefined' }
+  }
+  if (typeof value === 'bigint') {
+    return { [TYPE_TAG]: 'BigInt', value: value.toString() }
+  }
+  if (value instanceof Date) {
+    return { [TYPE_TAG]: 'Date', value: value.toISOString() }
+  }
+  if (value instanceof Map) {
+    return {
+      [TYPE_TAG]: 'Map',
+      value: Array.from(value.entries()).map(([k, v]) => [tag(k), tag(v)]),
+    }
+  }
+  if (value instanceof Set) {
+    return { [TYPE_TAG]: 'Set', value: Array.from(value.values()).map(tag) }
+  }
+  if (Array.isArray(value)) {
+    return value.map(tag)
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {}
+    Object.keys(value).forEach((key) => {
+      result[key] = tag((value as Record<string, unknown>)[key])
+    })
+    return result
+  }
+  return value
+}
+
+/**
+ * Restore tagged objects to their original types
+ * Walks the parsed value instead of using a JSON reviver, which would drop undefined properties
+ */
+function untag(value: unknown): unknown {
+  if (isTaggedValue(value)) {
+    switch (value[TYPE_TAG]) {
+      case 'undefined':
+        return undefined
+      case 'BigInt':
+        return BigInt(value.value)
+      case 'Date':
+        return new Date(value.value)
+      case 'Map':
+        return new Map(value.value.map(([k, v]) => [untag(k), untag(v)]))
+      case 'Set':
+        return new Set(value.value.map(untag))
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map(untag)
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {}
+    Object.keys(value).forEach((key) => {
+      result[key] = untag((value as Record<string, unknown>)[key])
+    })
+    return result
+  }
+  return value
+}
+
+/**
+ * Serializer that round-trips Date, Map, Set, BigInt and undefined
+ * (including nested values) in addition to regular JSON values
+ *
+ * @example
+ * ```tsx
+ * const { value } = useStorage<Map<string, Date>>('visits', { ...richSerializer })
+ * ```
+ */
+export const richSerializer: IStorageSerializer<RichStorageValue> = {
+  serializer: (value) => JSON.stringify(tag(value)),
+  deserializer: (rawValue) => untag(JSON.parse(rawValue)),
+}
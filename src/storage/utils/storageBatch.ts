@@ -0,0 +1,180 @@
+import type { IStorageError, StorageAdapter } from '../interface'
+import { createStorageError } from './storageError'
+import { isPromise } from './isPromise'
+
+/**
+ * Write staged by a useStorage hook while a batch is active
+ */
+export interface IStagedStorageWrite {
+  adapter: StorageAdapter
+  key: string
+  rawValue: string | null // null removes the key
+
+  /**
+   * Persist the value, throws if it can't be written
+   */
+  write: () => void
+
+  /**
+   * Update the hooks using the key once every write of the batch succeeded
+   */
+  commit: () => void
+
+  /**
+   * Report that the batch was rolled back - `isCause` is true for the write that failed
+   */
+  fail: (error: IStorageError, isCause: boolean) => void
+
+  /**
+   * Report that the previous value couldn't be restored after the batch failed
+   */
+  failRestore: (error: IStorageError) => void
+}
+
+/**
+ * Collects the writes of useStorage hooks made inside batchStorageWrites and
+ * commits them together
+ */
+class StorageBatch {
+  private staged: IStagedStorageWrite[] | null = null
+
+  /**
+   * Check if writes are currently being staged
+   */
+  isActive(): boolean {
+    return this.staged !== null
+  }
+
+  /**
+   * Stage a write - a later write to the same key replaces the earlier one
+   */
+  stage(write: IStagedStorageWrite): void {
+    if (this.staged === null) {
+      return
+    }
+
+    const index = this.findIndex(write.adapter.name, write.key)
+    if (index > -1) {
+      this.staged[index] = write
+    } else {
+      this.staged.push(write)
+    }
+  }
+
+  /**
+   * Get the raw value staged for a key (undefined if the key has no staged write)
+   */
+  getStagedValue(adapterName: string, key: string): string | null | undefined {
+    const index = this.findIndex(adapterName, key)
+    return index > -1 && this.staged !== null ? this.staged[index].rawValue : undefined
+  }
+
+  run(callback: () => void): IStorageError | null {
+    // Nested batches are part of the outer batch
+    if (this.staged !== null) {
+      callback()
+      return null
+    }
+
+    this.staged = []
+    let writes: IStagedStorageWrite[]
+
+    try {
+      callback()
+    } finally {
+      // Nothing is written if the callback throws
+      writes = this.staged
+      this.staged = null
+    }
+
+    return this.commit(writes)
+  }
+
+  private findIndex(adapterName: string, key: string): number {
+    if (this.staged === null) {
+      return -1
+    }
+
+    return this.staged.findIndex(
+      (staged) => staged.adapter.name === adapterName && staged.key === key
+    )
+  }
+
+  /**
+   * Write every staged value, restoring the previous values if a write fails
+   */
+  private commit(writes: IStagedStorageWrite[]): IStorageError | null {
+    const applied: Array<{ staged: IStagedStorageWrite; previousValue: string | null }> = []
+
+    for (const staged of writes) {
+      try {
+        const previousValue = staged.adapter.get(staged.key)
+        staged.write()
+        applied.push({
+          staged,
+          previousValue: isPromise<string | null>(previousValue) ? null : previousValue,
+        })
+      } catch (error) {
+        this.rollback(applied)
+
+        const storageError = createStorageError(staged.key, error)
+        writes.forEach((write) => {
+          write.fail(storageError, write === staged)
+        })
+        return storageError
+      }
+    }
+
+    writes.forEach((staged) => {
+      staged.commit()
+    })
+    return null
+  }
+
+  /**
+   * Restore the values overwritten by a failed batch, last write first
+   * Keys evicted to make room for the batch are not restored
+   */
+  private rollback(
+    applied: Array<{ staged: IStagedStorageWrite; previousValue: string | null }>
+  ): void {
+    applied.reverse().forEach(({ staged, previousValue }) => {
+      try {
+        if (previousValue === null) {
+          staged.adapter.remove(staged.key)
+        } else {
+          staged.adapter.set(staged.key, previousValue)
+        }
+      } catch (error) {
+        staged.failRestore(createStorageError(staged.key, error))
+      }
+    })
+  }
+}
+
+// Singleton instance
+export const storageBatch = new StorageBatch()
+
+/**
+ * Write several useStorage values at once
+ * `setValue` and `removeValue` calls made inside the callback are staged and written together
+ * after it returns - if any write fails (e.g. the storage quota is exceeded), the values
+ * written so far are restored and every hook of the batch keeps its persisted value
+ * Hooks are updated once, after all writes succeeded
+ * Writes to asynchronous storage types (indexedDB, encrypted storage) are not staged
+ *
+ * @param {() => void} callback - Function calling setValue/removeValue of useStorage hooks
+ * @returns {IStorageError | null} Error of the write that failed (null if the batch was written)
+ *
+ * @example
+ * ```ts
+ * const error = batchStorageWrites(() => {
+ *   cart.setValue(nextCart)
+ *   shipping.setValue(nextShipping)
+ *   coupon.removeValue()
+ * })
+ * ```
+ */
+export function batchStorageWrites(callback: () => void): IStorageError | null {
+  return storageBatch.run(callback)
+}
@@ -0,0 +1,104 @@
+/**
+ * Prefix identifying encrypted values (format version 1)
+ */
+const ENCRYPTED_PREFIX = 'enc:v1:'
+
+const DEFAULT_SALT = 'react-hooks-core'
+const DEFAULT_ITERATIONS = 100000
+const IV_LENGTH = 12
+
+/**
+ * Check if Web Crypto (crypto.subtle) is available in the current environment
+ */
+export function isWebCryptoAvailable(): boolean {
+  return (
+    typeof crypto !== 'undefined' &&
+    typeof crypto.subtle !== 'undefined' &&
+    typeof TextEncoder !== 'undefined'
+  )
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase using PBKDF2 (SHA-256)
+ */
+export async function deriveEncryptionKey(
+  passphrase: string,
+  salt: string = DEFAULT_SALT,
+  iterations: number = DEFAULT_ITERATIONS
+): Promise<CryptoKey> {
+  const encoder = new TextEncoder()
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Check if a raw stored string was encrypted by encryptString
+ */
+export function isEncryptedString(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX)
+}
+
+/**
+ * Encrypt a string with AES-GCM using a random IV
+ * Output format: `enc:v1:<base64 iv>.<base64 ciphertext>`
+ */
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`
+}
+
+/**
+ * Decrypt a string produced by encryptString
+ * Throws if the value is malformed or was encrypted with a different key
+ */
+export async function decryptString(key: CryptoKey, value: string): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split('.')
+
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed encrypted value')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  )
+
+  return new TextDecoder().decode(plaintext)
+}
@@ -0,0 +1,80 @@
+/**
+ * Marker identifying values written with metadata by useStorage
+ */
+const ENVELOPE_MARKER = '__rhc'
+
+/**
+ * Metadata stored alongside a value
+ */
+export interface IStorageEnvelopeMeta {
+  /**
+   * Schema version of the stored value
+   */
+  version?: number
+
+  /**
+   * Timestamp (ms since epoch) after which the value is expired
+   */
+  expiresAt?: number
+}
+
+/**
+ * Unwrapped stored value
+ */
+export interface IStorageEnvelope extends IStorageEnvelopeMeta {
+  /**
+   * Serialized value (the string that would be stored without metadata)
+   */
+  payload: string
+}
+
+/**
+ * Wrap a serialized value with metadata
+ * Values without metadata are stored as-is so plain values stay readable
+ */
+export function createEnvelope(payload: string, meta: IStorageEnvelopeMeta): string {
+  if (meta.version === undefined && meta.expiresAt === undefined) {
+    return payload
+  }
+
+  return JSON.stringify({ [ENVELOPE_MARKER]: 1, v: meta.version, e: meta.expiresAt, d: payload })
+}
+
+/**
+ * Unwrap a raw stored string
+ * Raw strings that aren't envelopes are returned as the payload without metadata
+ */
+export function readEnvelope(rawValue: string): IStorageEnvelope {
+  // Cheap check first - most values are not envelopes
+  if (rawValue.indexOf(`"${ENVELOPE_MARKER}"`) === -1) {
+    return { payload: rawValue }
+  }
+
+  try {
+    const parsed = JSON.parse(rawValue)
+
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      parsed[ENVELOPE_MARKER] === 1 &&
+      typeof parsed.d === 'string'
+    ) {
+      return {
+        payload: parsed.d,
+        version: typeof parsed.v === 'number' ? parsed.v : undefined,
+        expiresAt: typeof parsed.e === 'number' ? parsed.e : undefined,
+      }
+    }
+  } catch {
+    // Not JSON - treat as a plain value
+  }
+
+  return { payload: rawValue }
+}
+
+/**
+ * Check if an unwrapped value has expired
+ */
+export function isEnvelopeExpired(envelope: IStorageEnvelope, now: number = Date.now()): boolean {
+  return envelope.expiresAt !== undefined && envelope.expiresAt <= now
+}
@@ -0,0 +1,36 @@
+import type { IStorageError, StorageErrorType, StorageOperation } from '../interface'
+
+/**
+ * Check if an error was thrown because the storage quota is exceeded
+ * Browsers report this with different names and codes
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false
+  }
+
+  const { name, code } = error as { name?: string; code?: number }
+
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' || // Firefox
+    code === 22 ||
+    code === 1014 // Firefox
+  )
+}
+
+/**
+ * Create a typed storage error from an error caught during an operation
+ */
+export function createStorageError(
+  key: string,
+  cause: unknown,
+  operation: StorageOperation = 'write'
+): IStorageError {
+  const type: StorageErrorType = isQuotaExceededError(cause)
+    ? 'quotaExceeded'
+    : `${operation}Failed`
+  const message = cause instanceof Error ? cause.message : String(cause)
+
+  return { type, operation, key, message, cause }
+}
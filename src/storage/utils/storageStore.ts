@@ -0,0 +1,277 @@
+import type { StorageAdapter } from '../interface'
+import { isPromise } from './isPromise'
+
+/**
+ * Snapshot of a stored key
+ * Snapshots are only replaced when the raw value or loading state changes,
+ * so equal raw values keep the same snapshot and don't re-render
+ */
+export interface IStorageSnapshot {
+  /**
+   * Raw stored string (null when missing)
+   */
+  rawValue: string | null
+
+  /**
+   * Whether the value is still being read from an asynchronous adapter
+   */
+  loading: boolean
+
+  /**
+   * Error thrown by the last read (null when it succeeded or the value was written since)
+   */
+  readError: unknown
+}
+
+/**
+ * Listener notified with the new raw value (null when removed)
+ * `isInitialRead` is true when the value was read on subscribe rather than changed
+ */
+type StorageStoreListener = (rawValue: string | null, isInitialRead: boolean) => void
+
+/**
+ * Listener notified when a key of an adapter was written or removed (key is null when cleared)
+ */
+type StorageKeysListener = (adapterName: string, key: string | null) => void
+
+interface IStoreEntry {
+  snapshot: IStorageSnapshot
+  listeners: Set<StorageStoreListener>
+  version: number // Incremented on every change so stale asynchronous reads are ignored
+}
+
+const SERVER_SNAPSHOT: IStorageSnapshot = { rawValue: null, loading: false, readError: null }
+const SERVER_LOADING_SNAPSHOT: IStorageSnapshot = { rawValue: null, loading: true, readError: null }
+
+/**
+ * Per-key external store shared by all useStorage hooks (read with useSyncExternalStore)
+ * Writes made through a hook are published here so every hook using the same
+ * adapter and key renders the same value in the same commit
+ * Keys with subscribers are cached, other keys are read from storage on demand
+ * Read errors are kept in the snapshot and reported by the hooks using the key
+ */
+class StorageStore {
+  private entries: Map<string, Map<string, IStoreEntry>> = new Map()
+  private keysListeners: Set<StorageKeysListener> = new Set()
+
+  /**
+   * Get the current snapshot of a key
+   */
+  getSnapshot(adapter: StorageAdapter, key: string): IStorageSnapshot {
+    if (typeof window === 'undefined') {
+      return this.getServerSnapshot(adapter)
+    }
+
+    const entry = this.getEntry(adapter, key)
+
+    // Subscribed keys are kept up to date by publish, others are read from storage
+    if (entry.listeners.size === 0 && !adapter.async) {
+      try {
+        const rawValue = adapter.get(key)
+        if (isPromise<string | null>(rawValue)) {
+          this.update(entry, entry.snapshot.rawValue, true)
+        } else {
+          this.update(entry, rawValue, false)
+        }
+      } catch (error) {
+        this.update(entry, null, false, error)
+      }
+    }
+
+    return entry.snapshot
+  }
+
+  /**
+   * Get the snapshot used during server rendering and hydration
+   */
+  getServerSnapshot(adapter: StorageAdapter): IStorageSnapshot {
+    return adapter.async ? SERVER_LOADING_SNAPSHOT : SERVER_SNAPSHOT
+  }
+
+  subscribe(adapter: StorageAdapter, key: string, listener: StorageStoreListener): () => void {
+    const entry = this.getEntry(adapter, key)
+    entry.listeners.add(listener)
+
+    // The first subscriber reads the current value
+    if (entry.listeners.size === 1) {
+      this.read(adapter, key, entry)
+    }
+
+    // Return unsubscribe function
+    return () => {
+      entry.listeners.delete(listener)
+
+      // Drop unused keys so the next read comes from storage
+      if (entry.listeners.size === 0) {
+        const adapterEntries = this.entries.get(adapter.name)
+        if (adapterEntries?.get(key) === entry) {
+          adapterEntries.delete(key)
+        }
+        if (adapterEntries?.size === 0) {
+          this.entries.delete(adapter.name)
+        }
+      }
+    }
+  }
+
+  /**
+   * Listen for writes and removals of any key (used to keep key listings up to date)
+   */
+  subscribeKeys(listener: StorageKeysListener): () => void {
+    this.keysListeners.add(listener)
+
+    // Return unsubscribe function
+    return () => {
+      this.keysListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Notify all hooks using a key that its value changed
+   */
+  publish(adapterName: string, key: string, rawValue: string | null): void {
+    this.notifyKeys(adapterName, key)
+
+    const entry = this.entries.get(adapterName)?.get(key)
+    if (!entry) {
+      return
+    }
+
+    entry.version += 1
+
+    if (this.update(entry, rawValue, false)) {
+      this.notify(entry, rawValue, false)
+    }
+  }
+
+  /**
+   * Notify all hooks using an adapter that its values were cleared
+   */
+  publishClear(adapterName: string): void {
+    this.notifyKeys(adapterName, null)
+
+    const adapterEntries = this.entries.get(adapterName)
+    if (!adapterEntries) {
+      return
+    }
+
+    Array.from(adapterEntries.keys()).forEach((key) => {
+      this.publish(adapterName, key, null)
+    })
+  }
+
+  private getEntry(adapter: StorageAdapter, key: string): IStoreEntry {
+    let adapterEntries = this.entries.get(adapter.name)
+    if (!adapterEntries) {
+      adapterEntries = new Map()
+      this.entries.set(adapter.name, adapterEntries)
+    }
+
+    let entry = adapterEntries.get(key)
+    if (!entry) {
+      entry = {
+        snapshot: adapter.async ? SERVER_LOADING_SNAPSHOT : SERVER_SNAPSHOT,
+        listeners: new Set(),
+        version: 0,
+      }
+      adapterEntries.set(key, entry)
+    }
+
+    return entry
+  }
+
+  /**
+   * Read a key from storage into its entry
+   */
+  private read(adapter: StorageAdapter, key: string, entry: IStoreEntry): void {
+    let rawValue: string | null | Promise<string | null>
+
+    try {
+      rawValue = adapter.get(key)
+    } catch (error) {
+      this.applyRead(entry, null, error)
+      return
+    }
+
+    if (!isPromise<string | null>(rawValue)) {
+      this.applyRead(entry, rawValue)
+      return
+    }
+
+    const version = entry.version
+    if (this.update(entry, entry.snapshot.rawValue, true)) {
+      this.notify(entry, entry.snapshot.rawValue, true)
+    }
+
+    rawValue
+      .then((resolvedValue) => {
+        // Ignore the result if a newer value was published meanwhile
+        if (version === entry.version) {
+          this.applyRead(entry, resolvedValue)
+        }
+      })
+      .catch((error) => {
+        if (version === entry.version) {
+          this.applyRead(entry, null, error)
+        }
+      })
+  }
+
+  private applyRead(entry: IStoreEntry, rawValue: string | null, readError: unknown = null): void {
+    if (this.update(entry, rawValue, false, readError)) {
+      this.notify(entry, rawValue, true)
+    }
+  }
+
+  /**
+   * Replace the snapshot of an entry if it changed
+   * Returns whether it changed
+   * The first read error is kept while reads keep failing, so repeated reads don't change it
+   */
+  private update(
+    entry: IStoreEntry,
+    rawValue: string | null,
+    loading: boolean,
+    nextReadError: unknown = null
+  ): boolean {
+    const readError =
+      nextReadError !== null && entry.snapshot.readError !== null
+        ? entry.snapshot.readError
+        : nextReadError
+
+    if (
+      entry.snapshot.rawValue === rawValue &&
+      entry.snapshot.loading === loading &&
+      entry.snapshot.readError === readError
+    ) {
+      return false
+    }
+
+    entry.snapshot = { rawValue, loading, readError }
+    return true
+  }
+
+  private notifyKeys(adapterName: string, key: string | null): void {
+    Array.from(this.keysListeners).forEach((listener) => {
+      try {
+        listener(adapterName, key)
+      } catch {
+        // A failing listener must not prevent others from updating
+      }
+    })
+  }
+
+  private notify(entry: IStoreEntry, rawValue: string | null, isInitialRead: boolean): void {
+    // Copy so listeners can unsubscribe while being notified
+    Array.from(entry.listeners).forEach((listener) => {
+      try {
+        listener(rawValue, isInitialRead)
+      } catch {
+        // A failing listener must not prevent others from updating
+      }
+    })
+  }
+}
+
+// Singleton instance
+export const storageStore = new StorageStore()
@@ -0,0 +1,167 @@
+const CHANNEL_NAME = 'react-hooks-core:storage'
+
+/**
+ * sessionStorage key of the session id - the browser copies sessionStorage into tabs
+ * opened from the current one, so sibling tabs share the id
+ */
+const SESSION_KEY = '__rhc_sync_session'
+
+/**
+ * Message sent between tabs when a synced value changes
+ */
+interface IStorageSyncMessage {
+  adapter: string
+  key: string
+  value: string | null
+  session: string | null // Session id of the sending tab (null if sessionStorage is unavailable)
+}
+
+/**
+ * Listener notified with the raw value written in another tab (null when removed)
+ * `isSameSession` is true when the other tab shares this tab's session (see SESSION_KEY)
+ */
+type StorageSyncListener = (rawValue: string | null, isSameSession: boolean) => void
+
+/**
+ * Cross-tab sync transport based on BroadcastChannel
+ * Unlike the `storage` event, it works for every adapter (sessionStorage, cookies, custom)
+ * The channel is opened lazily and closed when the last listener unsubscribes
+ */
+class StorageSyncChannel {
+  private channel: BroadcastChannel | null = null
+  private listeners: Map<string, Set<StorageSyncListener>> = new Map()
+  private sessionId: string | null = null
+
+  /**
+   * Check if BroadcastChannel is available in the current environment
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined'
+  }
+
+  subscribe(adapterName: string, key: string, listener: StorageSyncListener): () => void {
+    if (!this.isSupported()) {
+      return () => {}
+    }
+
+    const id = this.getId(adapterName, key)
+    let keyListeners = this.listeners.get(id)
+    if (!keyListeners) {
+      keyListeners = new Set()
+      this.listeners.set(id, keyListeners)
+    }
+
+    keyListeners.add(listener)
+    this.getChannel()
+
+    // Return unsubscribe function
+    return () => {
+      keyListeners.delete(listener)
+
+      if (keyListeners.size === 0) {
+        this.listeners.delete(id)
+      }
+
+      // Close the channel if no more listeners
+      if (this.listeners.size === 0) {
+        this.close()
+      }
+    }
+  }
+
+  /**
+   * Send a changed value to all other tabs
+   * Values that can't be sent are passed to onError
+   */
+  broadcast(
+    adapterName: string,
+    key: string,
+    rawValue: string | null,
+    onError: (error: unknown) => void
+  ): void {
+    if (!this.isSupported()) {
+      return
+    }
+
+    try {
+      const message: IStorageSyncMessage = {
+        adapter: adapterName,
+        key,
+        value: rawValue,
+        session: this.getSessionId(),
+      }
+      this.getChannel().postMessage(message)
+    } catch (error) {
+      onError(error)
+    }
+  }
+
+  /**
+   * Get the id of the browsing session, shared with tabs opened from this one
+   * The id is written back if sessionStorage was cleared, so this tab keeps its siblings
+   */
+  getSessionId(): string | null {
+    try {
+      const storedId = window.sessionStorage.getItem(SESSION_KEY)
+      if (storedId !== null) {
+        this.sessionId = storedId
+        return storedId
+      }
+
+      if (this.sessionId === null) {
+        this.sessionId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+      }
+      window.sessionStorage.setItem(SESSION_KEY, this.sessionId)
+      return this.sessionId
+    } catch {
+      return null
+    }
+  }
+
+  private getId(adapterName: string, key: string): string {
+    return `${adapterName}\u0000${key}`
+  }
+
+  private getChannel(): BroadcastChannel {
+    if (this.channel === null) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (event: MessageEvent<IStorageSyncMessage>) => {
+        this.handleMessage(event.data)
+      }
+    }
+
+    return this.channel
+  }
+
+  private handleMessage(message: IStorageSyncMessage): void {
+    if (!message || typeof message.adapter !== 'string' || typeof message.key !== 'string') {
+      return
+    }
+
+    const keyListeners = this.listeners.get(this.getId(message.adapter, message.key))
+    if (!keyListeners) {
+      return
+    }
+
+    const isSameSession =
+      typeof message.session === 'string' && message.session === this.getSessionId()
+
+    Array.from(keyListeners).forEach((listener) => {
+      try {
+        listener(message.value, isSameSession)
+      } catch {
+        // A failing listener must not prevent others from updating
+      }
+    })
+  }
+
+  private close(): void {
+    if (this.channel !== null) {
+      this.channel.close()
+      this.channel = null
+    }
+  }
+}
+
+// Singleton instance
+export const storageSyncChannel = new StorageSyncChannel()
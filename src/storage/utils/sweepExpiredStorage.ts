@@ -0,0 +1,59 @@
+import type { IStorageLogger, StorageAdapter, StorageType } from '../interface'
+import { resolveStorageAdapter } from '../adapters/resolveStorageAdapter'
+import { isEnvelopeExpired, readEnvelope } from './storageEnvelope'
+import { storageStore } from './storageStore'
+
+/**
+ * Remove every expired value (written with the `ttl` option) from a storage backend
+ * Values read by a hook are also removed when they expire, so this is mainly useful on
+ * startup to purge values that are never read again
+ *
+ * @param {StorageType | StorageAdapter} storageType - Storage to sweep
+ * @param {IStorageLogger} logger - Logger for sweeping errors (console by default)
+ * @returns {Promise<string[]>} Keys that were removed
+ *
+ * @example
+ * ```ts
+ * // On app startup
+ * sweepExpiredStorage('localStorage')
+ * sweepExpiredStorage('sessionStorage')
+ * ```
+ */
+export async function sweepExpiredStorage(
+  storageType: StorageType | StorageAdapter = 'localStorage',
+  logger: IStorageLogger = console
+): Promise<string[]> {
+  if (typeof window === 'undefined') {
+    return []
+  }
+
+  const adapter = resolveStorageAdapter(storageType)
+
+  if (!adapter.keys) {
+    logger.warn(`Cannot sweep ${adapter.name}: adapter does not support listing keys`)
+    return []
+  }
+
+  const removed: string[] = []
+  const now = Date.now()
+
+  try {
+    const keys = await adapter.keys()
+
+    for (const key of keys) {
+      const rawValue = await adapter.get(key)
+
+      if (rawValue !== null && isEnvelopeExpired(readEnvelope(rawValue), now)) {
+        await adapter.remove(key)
+        removed.push(key)
+
+        // Reset hooks still showing the removed value
+        storageStore.publish(adapter.name, key, null)
+      }
+    }
+  } catch (error) {
+    logger.warn(`Error sweeping expired values from ${adapter.name}:`, error)
+  }
+
+  return removed
+}
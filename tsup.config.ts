@@ -5,6 +5,7 @@ export default defineConfig({
     index: 'src/index.ts',
     'browser/index': 'src/browser/index.ts',
     'storage/index': 'src/storage/index.ts',
+    'storage/cookies': 'src/storage/cookies.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,